@@ -1,7 +1,7 @@
 import { bench, describe } from 'vitest'
 import { readFileSync } from 'node:fs'
 import { join } from 'node:path'
-import { woff2Encode } from '../src/woff2/encode/encode'
+import { woff2Encode, woff2EncodeAsync } from '../src/woff2/encode/encode'
 
 const fixturesPath = join(__dirname, '../test/fixtures')
 
@@ -47,3 +47,11 @@ describe('woff2Encode quality 4', () => {
     })
   }
 })
+
+describe('woff2EncodeAsync quality 11 (native Brotli)', () => {
+  for (const f of fixtures) {
+    bench(`${f.label} (${sizeLabel(f.input.byteLength)})`, async () => {
+      await woff2EncodeAsync(f.input)
+    })
+  }
+})
@@ -59,3 +59,11 @@ describe('woffDecode', () => {
     })
   }
 })
+
+describe('woffEncode zopfli', () => {
+  for (const f of encodeFixtures) {
+    bench(`${f.label} (${sizeLabel(f.input.byteLength)})`, async () => {
+      await woffEncode(f.input, { zopfli: true })
+    })
+  }
+})
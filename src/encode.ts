@@ -1,2 +1,44 @@
-export { woffEncode, type WoffEncodeOptions } from './woff/encode'
-export { woff2Encode, type Woff2EncodeOptions } from './woff2/encode/encode'
+export {
+  woffEncode,
+  woffEncodeDetailed,
+  type WoffEncodeOptions,
+  type WoffEncodeResult,
+  type WoffTableReport,
+  type WoffTableStorage,
+} from './woff/encode'
+export { type ZopfliOptions } from './woff/zopfli'
+export { WoffEncoderStream, createWoffEncodeTransform } from './woff/encode-stream'
+export {
+  woff2Encode,
+  woff2EncodeAsync,
+  woff2EncodeDetailed,
+  type Woff2EncodeAttempt,
+  type Woff2EncodeOptions,
+  type Woff2EncodeResult,
+  type Woff2EncodeStats,
+  type Woff2HmtxStats,
+  type Woff2TableStats,
+} from './woff2/encode/encode'
+export { type GlyfStreamSizes } from './woff2/encode/transform-glyf'
+export { serializeMetadata, validateMetadata, type WoffMetadata } from './shared/metadata'
+export {
+  setCompressionBackends,
+  getCompressionBackends,
+  type CompressionBackends,
+  type CompressionBackendName,
+  type CompressionBackendReport,
+  type CompressionCodec,
+  type CompressionOptions,
+  type BrotliCompressOptions,
+} from './shared/compression'
+export {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+  ChecksumError,
+  type WoffErrorCode,
+  type WoffErrorDetails,
+} from './shared/errors'
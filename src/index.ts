@@ -1,7 +1,91 @@
 // WOFF
-export { woffDecode } from './woff/decode'
-export { woffEncode, type WoffEncodeOptions } from './woff/encode'
+export { woffDecode, woffDecodeDetailed, type WoffDecodeResult, type WoffDecodeOptions } from './woff/decode'
+export { inspectWoff, type WoffInfo, type WoffTableInfo } from './woff/inspect'
+export { validateWoff } from './woff/validate'
+export { WoffDecoderStream, createWoffDecodeTransform } from './woff/decode-stream'
+export {
+  woffEncode,
+  woffEncodeDetailed,
+  type WoffEncodeOptions,
+  type WoffEncodeResult,
+  type WoffTableReport,
+  type WoffTableStorage,
+} from './woff/encode'
+export { type ZopfliOptions } from './woff/zopfli'
+export { WoffEncoderStream, createWoffEncodeTransform } from './woff/encode-stream'
 
 // WOFF2
-export { woff2Decode } from './woff2/decode/decode'
-export { woff2Encode, type Woff2EncodeOptions } from './woff2/encode/encode'
+export {
+  woff2Decode,
+  woff2DecodeDetailed,
+  woff2DecodeCollectionFont,
+  woff2DecodeCollectionFonts,
+  type Woff2DecodeResult,
+  type Woff2DecodeOptions,
+} from './woff2/decode/decode'
+export { inspectWoff2, type Woff2Info, type Woff2TableInfo, type Woff2CollectionFontInfo } from './woff2/decode/inspect'
+export { validateWoff2 } from './woff2/decode/validate'
+export { Woff2DecoderStream, type Woff2StreamChunk } from './woff2/decode/stream'
+export { type ValidationReport, type ValidationFinding, type FindingSeverity } from './shared/validation'
+export {
+  woff2Encode,
+  woff2EncodeAsync,
+  woff2EncodeDetailed,
+  type Woff2EncodeAttempt,
+  type Woff2EncodeOptions,
+  type Woff2EncodeResult,
+  type Woff2EncodeStats,
+  type Woff2HmtxStats,
+  type Woff2TableStats,
+} from './woff2/encode/encode'
+export { type GlyfStreamSizes } from './woff2/encode/transform-glyf'
+
+// Format detection and conversion
+export { decodeAny } from './universal/decode'
+export { transcode, type TranscodeOptions } from './universal/transcode'
+export { detectFontFormat, type FontFormat } from './shared/format'
+export { sanitize, type SanitizeReport } from './universal/sanitize'
+
+// Compression backends
+export {
+  setCompressionBackends,
+  getCompressionBackends,
+  type CompressionBackends,
+  type CompressionBackendName,
+  type CompressionBackendReport,
+  type CompressionCodec,
+  type CompressionOptions,
+  type BrotliCompressOptions,
+} from './shared/compression'
+
+// Errors
+export { type ChecksumMismatch, type ChecksumVerification } from './shared/checksum'
+export { type DecodeLimits } from './shared/limits'
+export {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+  ChecksumError,
+  type WoffErrorCode,
+  type WoffErrorDetails,
+} from './shared/errors'
+
+// Extended metadata
+export {
+  parseMetadata,
+  serializeMetadata,
+  validateMetadata,
+  type WoffMetadata,
+  type MetadataText,
+  type MetadataTextContent,
+  type MetadataTextSpan,
+  type MetadataVendor,
+  type MetadataCredit,
+  type MetadataLicensee,
+  type MetadataExtension,
+  type MetadataExtensionItem,
+  type MetadataDirection,
+} from './shared/metadata'
@@ -1,5 +1,20 @@
 // SFNT table checksum computation
 
+import { ChecksumError } from './errors'
+import { TAG_HEAD, tagToString } from './known-tags'
+
+export interface ChecksumMismatch {
+  tag: string
+  field: 'checksum' | 'checkSumAdjustment' // table directory checksum, or head.checkSumAdjustment
+  expected: number // value stored in the file
+  actual: number // value computed from the decoded data
+}
+
+// 'report' collects mismatches in the detailed decode result, 'throw' rejects with a ChecksumError
+export type ChecksumVerification = 'report' | 'throw'
+
+const CHECKSUM_MAGIC = 0xb1b0afba
+
 export function computeChecksum(data: Uint8Array, offset: number, length: number): number {
   let sum = 0
   const end = offset + length
@@ -28,3 +43,43 @@ export function computeChecksum(data: Uint8Array, offset: number, length: number
 export function pad4(n: number): number {
   return (n + 3) & ~3
 }
+
+// Checksum of a table as stored in the table directory; head is summed with
+// checkSumAdjustment treated as zero
+export function tableChecksum(tag: number, data: Uint8Array): number {
+  const sum = computeChecksum(data, 0, data.byteLength)
+  if (tag !== TAG_HEAD || data.byteLength < 12) {
+    return sum
+  }
+  const adjustment = new DataView(data.buffer, data.byteOffset).getUint32(8)
+  return (sum - adjustment) >>> 0
+}
+
+// Check head.checkSumAdjustment against the checksum of the whole font
+export function checkAdjustment(font: Uint8Array, headOffset: number, mismatches: ChecksumMismatch[]): void {
+  const expected = new DataView(font.buffer, font.byteOffset).getUint32(headOffset + 8)
+  checkFontChecksum(computeChecksum(font, 0, font.byteLength), expected, mismatches)
+}
+
+// Same, from the checksum of the whole font as stored, for fonts that are
+// never held in one buffer
+export function checkFontChecksum(fontChecksum: number, expected: number, mismatches: ChecksumMismatch[]): void {
+  const actual = (CHECKSUM_MAGIC - (fontChecksum - expected)) >>> 0
+  if (actual !== expected) {
+    mismatches.push({ tag: 'head', field: 'checkSumAdjustment', expected, actual })
+  }
+}
+
+// Record a table checksum mismatch
+export function checkTable(tag: number, data: Uint8Array, expected: number, mismatches: ChecksumMismatch[]): void {
+  const actual = tableChecksum(tag, data)
+  if (actual !== expected) {
+    mismatches.push({ tag: tagToString(tag), field: 'checksum', expected, actual })
+  }
+}
+
+export function throwOnMismatch(mismatches: ChecksumMismatch[]): void {
+  if (mismatches.length > 0) {
+    throw new ChecksumError(mismatches)
+  }
+}
@@ -0,0 +1,102 @@
+// Compression backend registry
+// Each codec probes for a backend when its module loads: Node zlib, then
+// browser CompressionStream/DecompressionStream, then brotli-lib for Brotli.
+// Backends registered with setCompressionBackends, or passed per call as the
+// compression option, replace the probed ones
+
+import { WoffError } from './errors'
+import { outputTooLarge } from './limits'
+
+export type CompressionCodec = 'inflate' | 'deflate' | 'brotliDecompress' | 'brotliCompress'
+
+// 'node-zlib' is node:zlib, 'web-streams' is CompressionStream/DecompressionStream
+export type CompressionBackendName = 'node-zlib' | 'web-streams' | 'brotli-lib' | 'custom'
+
+// Backend per codec, as reported by getCompressionBackends. Brotli compression
+// is listed twice: brotliCompress for woff2EncodeAsync and brotliCompressSync
+// for woff2Encode, which can't use native Brotli
+export type CompressionBackendReport = Record<CompressionCodec | 'brotliCompressSync', CompressionBackendName | null>
+
+export interface BrotliCompressOptions {
+  quality: number // 0-11
+  mode: 'generic' | 'text' | 'font'
+  lgwin: number // window size, log2
+  sizeHint: number // expected input size
+  lgblock?: number // input block size, log2; absent lets the encoder choose
+}
+
+// Decompressors must stop once output would exceed maxOutputSize. Their
+// result is only checked after they return, so decode limits and bomb
+// protection hold during inflation only if a custom inflate or
+// brotliDecompress honours this
+export interface CompressionBackends {
+  inflate?: (data: Uint8Array, maxOutputSize: number) => Uint8Array | Promise<Uint8Array> // zlib, WOFF decode
+  deflate?: (data: Uint8Array, level: number) => Uint8Array | Promise<Uint8Array> // zlib, WOFF encode
+  brotliDecompress?: (data: Uint8Array, maxOutputSize: number) => Uint8Array | Promise<Uint8Array> // WOFF2 decode
+  brotliCompress?: (data: Uint8Array, options: BrotliCompressOptions) => Uint8Array | Promise<Uint8Array> // WOFF2 encode
+}
+
+export interface CompressionOptions {
+  compression?: CompressionBackends // overrides registered and probed backends for this call
+}
+
+const registered: CompressionBackends = {}
+const probed: Partial<CompressionBackendReport> = {}
+
+// Register backends used by every call without its own compression option.
+// Setting a codec to undefined restores the probed backend
+export function setCompressionBackends(backends: CompressionBackends): void {
+  Object.assign(registered, backends)
+}
+
+// Backend each codec uses for calls without a compression option; null if
+// none is available, or the codec's module is not part of the bundle
+export function getCompressionBackends(): CompressionBackendReport {
+  const name = (codec: CompressionCodec, key: keyof CompressionBackendReport = codec) =>
+    (registered[codec] ? 'custom' : probed[key] ?? null)
+  return {
+    inflate: name('inflate'),
+    deflate: name('deflate'),
+    brotliDecompress: name('brotliDecompress'),
+    brotliCompress: name('brotliCompress'),
+    brotliCompressSync: name('brotliCompress', 'brotliCompressSync'),
+  }
+}
+
+// Record the result of a codec's backend probe
+export function setProbedBackend(codec: keyof CompressionBackendReport, name: CompressionBackendName | null): void {
+  if (name) {
+    probed[codec] = name
+  } else {
+    delete probed[codec]
+  }
+}
+
+// The per-call or registered backend for a codec, if any
+export function customBackend<K extends CompressionCodec>(
+  codec: K,
+  backends?: CompressionBackends
+): CompressionBackends[K] | undefined {
+  return backends?.[codec] ?? registered[codec]
+}
+
+// Check a custom backend returned bytes
+export function checkBackendResult(result: unknown): Uint8Array {
+  if (!(result instanceof Uint8Array)) {
+    throw new WoffError('INVALID_OPTION', 'Compression backend did not return a Uint8Array')
+  }
+  return result
+}
+
+// Run a custom decompressor, enforcing maxOutputSize on its result
+export async function customDecompress(
+  fn: (data: Uint8Array, maxOutputSize: number) => Uint8Array | Promise<Uint8Array>,
+  data: Uint8Array,
+  maxOutputSize: number
+): Promise<Uint8Array> {
+  const result = checkBackendResult(await fn(data, maxOutputSize))
+  if (result.byteLength > maxOutputSize) {
+    throw outputTooLarge(maxOutputSize)
+  }
+  return result
+}
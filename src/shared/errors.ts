@@ -0,0 +1,109 @@
+// Error classes with stable, machine-readable codes
+// Messages are for humans and may change; codes and classes will not
+
+import type { ChecksumMismatch } from './checksum'
+
+export type WoffErrorCode =
+  | 'BAD_SIGNATURE' // not a WOFF/WOFF2/SFNT file of the expected kind
+  | 'TRUNCATED' // input ends before a structure it declares
+  | 'INVALID_HEADER' // header, table directory or collection directory is inconsistent
+  | 'OUT_OF_BOUNDS' // an offset/length pair points outside the input
+  | 'UNSUPPORTED_TRANSFORM' // unknown WOFF2 table transform
+  | 'DECOMPRESSION_FAILED' // zlib or Brotli stream could not be decompressed
+  | 'DECOMPRESSION_SIZE_MISMATCH' // decompressed size differs from the declared size
+  | 'GLYF_RECONSTRUCT_FAILED' // transformed glyf data is malformed
+  | 'CHECKSUM_MISMATCH' // a table checksum or head.checkSumAdjustment doesn't match the data
+  | 'INVALID_SFNT' // TTF/OTF/TTC input to an encoder is malformed
+  | 'INVALID_METADATA' // extended metadata is not well-formed or doesn't match the schema
+  | 'UNSUPPORTED_FORMAT' // input or target container is not supported for this operation
+  | 'INVALID_OPTION' // an argument or option is out of range
+  | 'LIMIT_EXCEEDED' // input exceeds a DecodeLimits option
+  | 'NO_BACKEND' // no compression implementation is available on this platform
+
+export interface WoffErrorDetails {
+  offset?: number // byte offset in the input the error refers to
+  tag?: string // table tag
+  glyphId?: number
+  cause?: unknown
+}
+
+export class WoffError extends Error {
+  readonly code: WoffErrorCode
+  readonly offset?: number
+  readonly tag?: string
+  readonly glyphId?: number
+  readonly cause?: unknown
+
+  constructor(code: WoffErrorCode, message: string, details: WoffErrorDetails = {}) {
+    super(message)
+    this.name = 'WoffError'
+    this.code = code
+    if (details.offset !== undefined) this.offset = details.offset
+    if (details.tag !== undefined) this.tag = details.tag
+    if (details.glyphId !== undefined) this.glyphId = details.glyphId
+    if (details.cause !== undefined) this.cause = details.cause
+  }
+}
+
+// Malformed WOFF or WOFF2 container structure
+export class WoffFormatError extends WoffError {
+  constructor(
+    code: 'BAD_SIGNATURE' | 'TRUNCATED' | 'INVALID_HEADER' | 'OUT_OF_BOUNDS' | 'UNSUPPORTED_TRANSFORM',
+    message: string,
+    details?: WoffErrorDetails
+  ) {
+    super(code, message, details)
+    this.name = 'WoffFormatError'
+  }
+}
+
+// Compressed table, font data or metadata could not be inflated to its declared size
+export class DecompressionError extends WoffError {
+  declare readonly code: 'DECOMPRESSION_FAILED' | 'DECOMPRESSION_SIZE_MISMATCH'
+
+  constructor(
+    code: 'DECOMPRESSION_FAILED' | 'DECOMPRESSION_SIZE_MISMATCH',
+    message: string,
+    details?: WoffErrorDetails
+  ) {
+    super(code, message, details)
+    this.name = 'DecompressionError'
+  }
+}
+
+// Transformed glyf data could not be turned back into TrueType glyphs
+export class GlyfReconstructError extends WoffError {
+  constructor(message: string, details?: WoffErrorDetails) {
+    super('GLYF_RECONSTRUCT_FAILED', message, { tag: 'glyf', ...details })
+    this.name = 'GlyfReconstructError'
+  }
+}
+
+// Malformed TTF/OTF/TTC input
+export class SfntError extends WoffError {
+  constructor(message: string, details?: WoffErrorDetails) {
+    super('INVALID_SFNT', message, details)
+    this.name = 'SfntError'
+  }
+}
+
+// Extended metadata that is not well-formed XML or doesn't match the schema
+export class MetadataError extends WoffError {
+  constructor(message: string, details?: WoffErrorDetails) {
+    super('INVALID_METADATA', message, details)
+    this.name = 'MetadataError'
+  }
+}
+
+// Table checksums or head.checkSumAdjustment don't match the decoded data
+export class ChecksumError extends WoffError {
+  readonly mismatches: ChecksumMismatch[]
+
+  constructor(mismatches: ChecksumMismatch[]) {
+    const first = mismatches[0]
+    const more = mismatches.length > 1 ? ` (and ${mismatches.length - 1} more)` : ''
+    super('CHECKSUM_MISMATCH', `${first.tag} ${first.field} mismatch${more}`, { tag: first.tag })
+    this.name = 'ChecksumError'
+    this.mismatches = mismatches
+  }
+}
@@ -0,0 +1,41 @@
+// Font container detection from the leading signature
+
+import { SFNT_CFF, SFNT_TTF, TTC_FLAVOR, WOFF2_SIGNATURE } from './known-tags'
+
+const WOFF_SIGNATURE = 0x774f4646 // 'wOFF'
+const SFNT_TRUE = 0x74727565 // 'true' (Apple TrueType)
+const SFNT_TYP1 = 0x74797031 // 'typ1' (PostScript Type 1 in an sfnt wrapper)
+
+export type FontFormat = 'woff' | 'woff2' | 'ttf' | 'otf' | 'type1' | 'ttc'
+
+// Identify the container from its first four bytes, or null if unrecognized
+export function detectFontFormat(data: ArrayBuffer | Uint8Array): FontFormat | null {
+  const input = data instanceof Uint8Array ? data : new Uint8Array(data)
+  if (input.byteLength < 4) {
+    return null
+  }
+
+  const signature = new DataView(input.buffer, input.byteOffset, 4).getUint32(0)
+  switch (signature) {
+    case WOFF_SIGNATURE:
+      return 'woff'
+    case WOFF2_SIGNATURE:
+      return 'woff2'
+    case SFNT_TTF:
+    case SFNT_TRUE:
+      return 'ttf'
+    case SFNT_CFF:
+      return 'otf'
+    case SFNT_TYP1:
+      return 'type1'
+    case TTC_FLAVOR:
+      return 'ttc'
+    default:
+      return null
+  }
+}
+
+// True for formats that are already plain SFNT data
+export function isSfntFormat(format: FontFormat | null): boolean {
+  return format === 'ttf' || format === 'otf' || format === 'type1' || format === 'ttc'
+}
@@ -77,6 +77,10 @@ export const TAG_MAXP = 0x6d617870
 export const TAG_CFF = 0x43464620
 export const TAG_CFF2 = 0x43464632
 export const TAG_DSIG = 0x44534947 // 'DSIG'
+export const TAG_CMAP = 0x636d6170
+export const TAG_NAME = 0x6e616d65
+export const TAG_POST = 0x706f7374
+export const TAG_OS2 = 0x4f532f32 // 'OS/2'
 
 // TTC flavor signature
 export const TTC_FLAVOR = 0x74746366 // 'ttcf'
@@ -0,0 +1,75 @@
+// Decode resource limits for untrusted input
+// Checked against header fields before anything is allocated, and enforced
+// again while inflating so a lying header can't overshoot them
+
+import { DecompressionError, WoffError } from './errors'
+
+export interface DecodeLimits {
+  maxOutputSize?: number // bytes of decoded font, and of decompressed table data and metadata
+  maxTables?: number // table directory entries
+  maxGlyphs?: number // numGlyphs of any font, from maxp or the transformed glyf header
+  maxCompressionRatio?: number // decompressed size / compressed size of the font data
+}
+
+// Throw LIMIT_EXCEEDED if value is over the limit
+export function checkLimit(value: number, limit: number | undefined, what: string, offset?: number): void {
+  if (limit !== undefined && value > limit) {
+    throw new WoffError('LIMIT_EXCEEDED', `${what} ${value} exceeds limit ${limit}`, { offset })
+  }
+}
+
+// Compression ratio of compressedSize bytes inflating to decompressedSize
+export function checkCompressionRatio(
+  decompressedSize: number,
+  compressedSize: number,
+  limit: number | undefined,
+  offset?: number
+): void {
+  if (limit !== undefined && decompressedSize > compressedSize * limit) {
+    const ratio = compressedSize === 0 ? Infinity : decompressedSize / compressedSize
+    throw new WoffError(
+      'LIMIT_EXCEEDED',
+      `Compression ratio ${ratio.toFixed(1)} exceeds limit ${limit}`,
+      { offset }
+    )
+  }
+}
+
+// Raised by the decompressors when output would grow past maxOutputSize
+export function outputTooLarge(maxOutputSize: number, cause?: unknown): DecompressionError {
+  return new DecompressionError(
+    'DECOMPRESSION_SIZE_MISMATCH',
+    `Decompressed data exceeds ${maxOutputSize} bytes`,
+    { cause }
+  )
+}
+
+// Read a decompression stream to the end, cancelling it as soon as the
+// output grows past maxOutputSize
+export async function readLimited(
+  stream: ReadableStream<Uint8Array>,
+  maxOutputSize: number
+): Promise<Uint8Array> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxOutputSize) {
+      await reader.cancel()
+      throw outputTooLarge(maxOutputSize)
+    }
+    chunks.push(value)
+  }
+
+  const output = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    output.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return output
+}
@@ -0,0 +1,564 @@
+// WOFF extended metadata object model
+// https://www.w3.org/TR/WOFF/#Metadata (shared by WOFF2)
+
+import { MetadataError } from './errors'
+import { parseXml, escapeXml, type XmlElement, type XmlNode } from './xml'
+
+export type MetadataDirection = 'ltr' | 'rtl'
+
+// Inline markup allowed inside <text>, <name> and <value>
+export interface MetadataTextSpan {
+  type: 'div' | 'span'
+  dir?: MetadataDirection
+  class?: string
+  content: MetadataTextContent[]
+}
+
+export type MetadataTextContent = string | MetadataTextSpan
+
+export interface MetadataText {
+  lang?: string
+  dir?: MetadataDirection
+  class?: string
+  content: MetadataTextContent[]
+}
+
+export interface MetadataVendor {
+  name: string
+  url?: string
+  dir?: MetadataDirection
+  class?: string
+}
+
+export interface MetadataCredit {
+  name: string
+  url?: string
+  role?: string
+  dir?: MetadataDirection
+  class?: string
+}
+
+export interface MetadataLicensee {
+  name: string
+  dir?: MetadataDirection
+  class?: string
+}
+
+export interface MetadataExtensionItem {
+  id?: string
+  names: MetadataText[]
+  values: MetadataText[]
+}
+
+export interface MetadataExtension {
+  id?: string
+  names?: MetadataText[]
+  items: MetadataExtensionItem[]
+}
+
+export interface WoffMetadata {
+  version?: '1.0'
+  uniqueId?: string
+  vendor?: MetadataVendor
+  credits?: MetadataCredit[]
+  description?: { url?: string; text: MetadataText[] }
+  license?: { url?: string; id?: string; text?: MetadataText[] }
+  copyright?: { text: MetadataText[] }
+  trademark?: { text: MetadataText[] }
+  licensee?: MetadataLicensee
+  extensions?: MetadataExtension[]
+}
+
+// Check a metadata object against the schema; returns a list of problems (empty if valid)
+export function validateMetadata(metadata: WoffMetadata): string[] {
+  const errors: string[] = []
+  const check = new SchemaChecker(errors)
+
+  if (!isObject(metadata)) {
+    return ['metadata must be an object']
+  }
+  if (metadata.version !== undefined && metadata.version !== '1.0') {
+    errors.push('version must be "1.0"')
+  }
+
+  if (metadata.uniqueId !== undefined) {
+    check.requiredString(metadata.uniqueId, 'uniqueId')
+  }
+  if (metadata.vendor !== undefined) {
+    check.named(metadata.vendor, 'vendor', ['url'])
+  }
+  if (metadata.credits !== undefined) {
+    if (check.nonEmptyArray(metadata.credits, 'credits')) {
+      metadata.credits.forEach((credit, i) => check.named(credit, `credits[${i}]`, ['url', 'role']))
+    }
+  }
+  if (metadata.description !== undefined) {
+    check.textBlock(metadata.description, 'description', ['url'], true)
+  }
+  if (metadata.license !== undefined) {
+    check.textBlock(metadata.license, 'license', ['url', 'id'], false)
+  }
+  if (metadata.copyright !== undefined) {
+    check.textBlock(metadata.copyright, 'copyright', [], true)
+  }
+  if (metadata.trademark !== undefined) {
+    check.textBlock(metadata.trademark, 'trademark', [], true)
+  }
+  if (metadata.licensee !== undefined) {
+    check.named(metadata.licensee, 'licensee', [])
+  }
+  if (metadata.extensions !== undefined) {
+    if (check.array(metadata.extensions, 'extensions')) {
+      metadata.extensions.forEach((ext, i) => check.extension(ext, `extensions[${i}]`))
+    }
+  }
+
+  return errors
+}
+
+// Serialize a metadata object to XML; throws if it does not conform to the schema
+export function serializeMetadata(metadata: WoffMetadata): string {
+  const errors = validateMetadata(metadata)
+  if (errors.length > 0) {
+    throw new MetadataError(`Invalid WOFF metadata: ${errors.join('; ')}`)
+  }
+
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>', '<metadata version="1.0">']
+
+  if (metadata.uniqueId !== undefined) {
+    lines.push(`  <uniqueid${attrs({ id: metadata.uniqueId })}/>`)
+  }
+  if (metadata.vendor) {
+    const { name, url, dir } = metadata.vendor
+    lines.push(`  <vendor${attrs({ name, url, dir, class: metadata.vendor.class })}/>`)
+  }
+  if (metadata.credits) {
+    lines.push('  <credits>')
+    for (const credit of metadata.credits) {
+      const { name, url, role, dir } = credit
+      lines.push(`    <credit${attrs({ name, url, role, dir, class: credit.class })}/>`)
+    }
+    lines.push('  </credits>')
+  }
+  if (metadata.description) {
+    writeTextBlock(lines, 'description', { url: metadata.description.url }, metadata.description.text)
+  }
+  if (metadata.license) {
+    const { url, id, text } = metadata.license
+    writeTextBlock(lines, 'license', { url, id }, text ?? [])
+  }
+  if (metadata.copyright) {
+    writeTextBlock(lines, 'copyright', {}, metadata.copyright.text)
+  }
+  if (metadata.trademark) {
+    writeTextBlock(lines, 'trademark', {}, metadata.trademark.text)
+  }
+  if (metadata.licensee) {
+    const { name, dir } = metadata.licensee
+    lines.push(`  <licensee${attrs({ name, dir, class: metadata.licensee.class })}/>`)
+  }
+  for (const ext of metadata.extensions ?? []) {
+    lines.push(`  <extension${attrs({ id: ext.id })}>`)
+    for (const name of ext.names ?? []) {
+      lines.push(`    ${textElement('name', name)}`)
+    }
+    for (const item of ext.items) {
+      lines.push(`    <item${attrs({ id: item.id })}>`)
+      for (const name of item.names) {
+        lines.push(`      ${textElement('name', name)}`)
+      }
+      for (const value of item.values) {
+        lines.push(`      ${textElement('value', value)}`)
+      }
+      lines.push('    </item>')
+    }
+    lines.push('  </extension>')
+  }
+
+  lines.push('</metadata>')
+  return lines.join('\n') + '\n'
+}
+
+// Parse metadata XML into the object model; throws if it does not conform to the schema
+export function parseMetadata(xml: string): WoffMetadata {
+  const root = parseXml(xml)
+  const reader = new ElementReader()
+
+  if (root.name !== 'metadata') {
+    throw new MetadataError(`Invalid WOFF metadata: root element must be <metadata>, got <${root.name}>`)
+  }
+  reader.attributes(root, ['version'], ['version'])
+  if (root.attributes.get('version') !== '1.0') {
+    throw new MetadataError('Invalid WOFF metadata: <metadata> version must be "1.0"')
+  }
+
+  const metadata: WoffMetadata = { version: '1.0' }
+  const seen = new Set<string>()
+
+  for (const child of reader.elementChildren(root)) {
+    if (child.name !== 'extension') {
+      if (seen.has(child.name)) {
+        throw new MetadataError(`Invalid WOFF metadata: <${child.name}> may appear only once`)
+      }
+      seen.add(child.name)
+    }
+
+    switch (child.name) {
+      case 'uniqueid':
+        reader.attributes(child, ['id'], ['id'])
+        reader.empty(child)
+        metadata.uniqueId = child.attributes.get('id')!
+        break
+      case 'vendor':
+        reader.attributes(child, ['name', 'url', 'dir', 'class'], ['name'])
+        reader.empty(child)
+        metadata.vendor = reader.named(child, ['url']) as MetadataVendor
+        break
+      case 'credits': {
+        reader.attributes(child, [], [])
+        const credits = reader.elementChildren(child).map((credit) => {
+          reader.expectName(credit, 'credit', 'credits')
+          reader.attributes(credit, ['name', 'url', 'role', 'dir', 'class'], ['name'])
+          reader.empty(credit)
+          return reader.named(credit, ['url', 'role']) as MetadataCredit
+        })
+        if (credits.length === 0) {
+          throw new MetadataError('Invalid WOFF metadata: <credits> requires at least one <credit>')
+        }
+        metadata.credits = credits
+        break
+      }
+      case 'description':
+        reader.attributes(child, ['url'], [])
+        metadata.description = { ...reader.optional(child, ['url']), text: reader.textList(child, 'text', true) }
+        break
+      case 'license':
+        reader.attributes(child, ['url', 'id'], [])
+        metadata.license = { ...reader.optional(child, ['url', 'id']), text: reader.textList(child, 'text', false) }
+        break
+      case 'copyright':
+        reader.attributes(child, [], [])
+        metadata.copyright = { text: reader.textList(child, 'text', true) }
+        break
+      case 'trademark':
+        reader.attributes(child, [], [])
+        metadata.trademark = { text: reader.textList(child, 'text', true) }
+        break
+      case 'licensee':
+        reader.attributes(child, ['name', 'dir', 'class'], ['name'])
+        reader.empty(child)
+        metadata.licensee = reader.named(child, []) as MetadataLicensee
+        break
+      case 'extension':
+        metadata.extensions = metadata.extensions ?? []
+        metadata.extensions.push(reader.extension(child))
+        break
+      default:
+        throw new MetadataError(`Invalid WOFF metadata: unknown element <${child.name}>`)
+    }
+  }
+
+  return metadata
+}
+
+function attrs(values: Record<string, string | undefined>): string {
+  let out = ''
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      out += ` ${key}="${escapeXml(value)}"`
+    }
+  }
+  return out
+}
+
+function writeTextBlock(
+  lines: string[],
+  name: string,
+  attributes: Record<string, string | undefined>,
+  text: MetadataText[]
+): void {
+  if (text.length === 0) {
+    lines.push(`  <${name}${attrs(attributes)}/>`)
+    return
+  }
+  lines.push(`  <${name}${attrs(attributes)}>`)
+  for (const t of text) {
+    lines.push(`    ${textElement('text', t)}`)
+  }
+  lines.push(`  </${name}>`)
+}
+
+function textElement(name: string, text: MetadataText): string {
+  const open = `<${name}${attrs({ 'xml:lang': text.lang, dir: text.dir, class: text.class })}>`
+  return `${open}${serializeContent(text.content)}</${name}>`
+}
+
+function serializeContent(content: MetadataTextContent[]): string {
+  let out = ''
+  for (const node of content) {
+    if (typeof node === 'string') {
+      out += escapeXml(node)
+    } else {
+      out += `<${node.type}${attrs({ dir: node.dir, class: node.class })}>`
+      out += serializeContent(node.content)
+      out += `</${node.type}>`
+    }
+  }
+  return out
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Runtime checks for objects built from untyped input (e.g. JSON config)
+class SchemaChecker {
+  constructor(private readonly errors: string[]) {}
+
+  requiredString(value: unknown, path: string): boolean {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.errors.push(`${path} must be a non-empty string`)
+      return false
+    }
+    return true
+  }
+
+  optionalString(value: unknown, path: string): void {
+    if (value !== undefined && typeof value !== 'string') {
+      this.errors.push(`${path} must be a string`)
+    }
+  }
+
+  dir(value: unknown, path: string): void {
+    if (value !== undefined && value !== 'ltr' && value !== 'rtl') {
+      this.errors.push(`${path} must be "ltr" or "rtl"`)
+    }
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (!Array.isArray(value)) {
+      this.errors.push(`${path} must be an array`)
+      return false
+    }
+    return true
+  }
+
+  nonEmptyArray(value: unknown, path: string): value is unknown[] {
+    if (!this.array(value, path)) return false
+    if (value.length === 0) {
+      this.errors.push(`${path} must contain at least one entry`)
+      return false
+    }
+    return true
+  }
+
+  object(value: unknown, path: string): value is Record<string, unknown> {
+    if (!isObject(value)) {
+      this.errors.push(`${path} must be an object`)
+      return false
+    }
+    return true
+  }
+
+  // Elements with a required name plus optional string attributes, dir and class
+  named(value: unknown, path: string, optional: string[]): void {
+    if (!this.object(value, path)) return
+    this.requiredString(value.name, `${path}.name`)
+    for (const key of optional) {
+      this.optionalString(value[key], `${path}.${key}`)
+    }
+    this.dir(value.dir, `${path}.dir`)
+    this.optionalString(value.class, `${path}.class`)
+  }
+
+  textBlock(value: unknown, path: string, optional: string[], requireText: boolean): void {
+    if (!this.object(value, path)) return
+    for (const key of optional) {
+      this.optionalString(value[key], `${path}.${key}`)
+    }
+    if (value.text === undefined && !requireText) return
+    const ok = requireText
+      ? this.nonEmptyArray(value.text, `${path}.text`)
+      : this.array(value.text, `${path}.text`)
+    if (ok) {
+      (value.text as unknown[]).forEach((t, i) => this.text(t, `${path}.text[${i}]`))
+    }
+  }
+
+  text(value: unknown, path: string): void {
+    if (!this.object(value, path)) return
+    this.optionalString(value.lang, `${path}.lang`)
+    this.dir(value.dir, `${path}.dir`)
+    this.optionalString(value.class, `${path}.class`)
+    this.content(value.content, `${path}.content`)
+  }
+
+  content(value: unknown, path: string): void {
+    if (!this.array(value, path)) return
+    value.forEach((node, i) => {
+      if (typeof node === 'string') return
+      const nodePath = `${path}[${i}]`
+      if (!this.object(node, nodePath)) return
+      if (node.type !== 'div' && node.type !== 'span') {
+        this.errors.push(`${nodePath}.type must be "div" or "span"`)
+      }
+      this.dir(node.dir, `${nodePath}.dir`)
+      this.optionalString(node.class, `${nodePath}.class`)
+      this.content(node.content, `${nodePath}.content`)
+    })
+  }
+
+  extension(value: unknown, path: string): void {
+    if (!this.object(value, path)) return
+    this.optionalString(value.id, `${path}.id`)
+    if (value.names !== undefined && this.array(value.names, `${path}.names`)) {
+      value.names.forEach((t, i) => this.text(t, `${path}.names[${i}]`))
+    }
+    if (!this.nonEmptyArray(value.items, `${path}.items`)) return
+    value.items.forEach((item, i) => {
+      const itemPath = `${path}.items[${i}]`
+      if (!this.object(item, itemPath)) return
+      this.optionalString(item.id, `${itemPath}.id`)
+      if (this.nonEmptyArray(item.names, `${itemPath}.names`)) {
+        item.names.forEach((t, j) => this.text(t, `${itemPath}.names[${j}]`))
+      }
+      if (this.nonEmptyArray(item.values, `${itemPath}.values`)) {
+        item.values.forEach((t, j) => this.text(t, `${itemPath}.values[${j}]`))
+      }
+    })
+  }
+}
+
+// Schema-aware helpers for walking parsed XML
+class ElementReader {
+  attributes(element: XmlElement, allowed: string[], required: string[]): void {
+    for (const name of element.attributes.keys()) {
+      if (!allowed.includes(name)) {
+        throw new MetadataError(`Invalid WOFF metadata: unexpected attribute "${name}" on <${element.name}>`)
+      }
+    }
+    for (const name of required) {
+      if (!element.attributes.get(name)) {
+        throw new MetadataError(`Invalid WOFF metadata: <${element.name}> requires a "${name}" attribute`)
+      }
+    }
+    const dir = element.attributes.get('dir')
+    if (dir !== undefined && dir !== 'ltr' && dir !== 'rtl') {
+      throw new MetadataError(`Invalid WOFF metadata: <${element.name}> dir must be "ltr" or "rtl"`)
+    }
+  }
+
+  // Child elements of an element-only container; non-whitespace text is an error
+  elementChildren(element: XmlElement): XmlElement[] {
+    const out: XmlElement[] = []
+    for (const child of element.children) {
+      if (typeof child === 'string') {
+        if (child.trim() !== '') {
+          throw new MetadataError(`Invalid WOFF metadata: unexpected text in <${element.name}>`)
+        }
+      } else {
+        out.push(child)
+      }
+    }
+    return out
+  }
+
+  empty(element: XmlElement): void {
+    if (this.elementChildren(element).length > 0) {
+      throw new MetadataError(`Invalid WOFF metadata: <${element.name}> must be empty`)
+    }
+  }
+
+  expectName(element: XmlElement, name: string, parent: string): void {
+    if (element.name !== name) {
+      throw new MetadataError(`Invalid WOFF metadata: unexpected <${element.name}> in <${parent}>`)
+    }
+  }
+
+  optional(element: XmlElement, names: string[]): Record<string, string> {
+    const out: Record<string, string> = {}
+    for (const name of names) {
+      const value = element.attributes.get(name)
+      if (value !== undefined) out[name] = value
+    }
+    return out
+  }
+
+  named(element: XmlElement, optional: string[]): { name: string; [key: string]: string } {
+    return {
+      name: element.attributes.get('name')!,
+      ...this.optional(element, [...optional, 'dir', 'class']),
+    }
+  }
+
+  textList(element: XmlElement, childName: string, required: boolean): MetadataText[] {
+    const text = this.elementChildren(element).map((child) => {
+      this.expectName(child, childName, element.name)
+      return this.text(child)
+    })
+    if (required && text.length === 0) {
+      throw new MetadataError(`Invalid WOFF metadata: <${element.name}> requires at least one <${childName}>`)
+    }
+    return text
+  }
+
+  text(element: XmlElement): MetadataText {
+    this.attributes(element, ['xml:lang', 'dir', 'class'], [])
+    const text: MetadataText = { content: this.content(element) }
+    const lang = element.attributes.get('xml:lang')
+    if (lang !== undefined) text.lang = lang
+    Object.assign(text, this.optional(element, ['dir', 'class']))
+    return text
+  }
+
+  content(element: XmlElement): MetadataTextContent[] {
+    return element.children.map((node: XmlNode): MetadataTextContent => {
+      if (typeof node === 'string') return node
+      if (node.name !== 'div' && node.name !== 'span') {
+        throw new MetadataError(`Invalid WOFF metadata: unexpected <${node.name}> in <${element.name}>`)
+      }
+      this.attributes(node, ['dir', 'class'], [])
+      return {
+        type: node.name,
+        ...this.optional(node, ['dir', 'class']),
+        content: this.content(node),
+      }
+    })
+  }
+
+  extension(element: XmlElement): MetadataExtension {
+    this.attributes(element, ['id'], [])
+    const names: MetadataText[] = []
+    const items: MetadataExtensionItem[] = []
+
+    for (const child of this.elementChildren(element)) {
+      if (child.name === 'name') {
+        names.push(this.text(child))
+      } else if (child.name === 'item') {
+        this.attributes(child, ['id'], [])
+        const item: MetadataExtensionItem = { ...this.optional(child, ['id']), names: [], values: [] }
+        for (const part of this.elementChildren(child)) {
+          if (part.name === 'name') {
+            item.names.push(this.text(part))
+          } else if (part.name === 'value') {
+            item.values.push(this.text(part))
+          } else {
+            throw new MetadataError(`Invalid WOFF metadata: unexpected <${part.name}> in <item>`)
+          }
+        }
+        if (item.names.length === 0 || item.values.length === 0) {
+          throw new MetadataError('Invalid WOFF metadata: <item> requires at least one <name> and one <value>')
+        }
+        items.push(item)
+      } else {
+        throw new MetadataError(`Invalid WOFF metadata: unexpected <${child.name}> in <extension>`)
+      }
+    }
+
+    if (items.length === 0) {
+      throw new MetadataError('Invalid WOFF metadata: <extension> requires at least one <item>')
+    }
+
+    return { ...this.optional(element, ['id']), ...(names.length > 0 ? { names } : {}), items }
+  }
+}
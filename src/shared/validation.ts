@@ -0,0 +1,104 @@
+// Structured conformance findings shared by the WOFF and WOFF2 validators
+
+export type FindingSeverity = 'error' | 'warning'
+
+export interface ValidationFinding {
+  severity: FindingSeverity // errors are spec MUST violations, warnings are SHOULDs and hints
+  code: string // stable identifier, e.g. 'LENGTH_MISMATCH'
+  message: string
+  offset: number // byte offset in the file the finding refers to
+  tag?: string // table tag, when the finding concerns a single table
+}
+
+export interface ValidationReport {
+  valid: boolean // true if there are no error findings
+  findings: ValidationFinding[]
+}
+
+export class FindingList {
+  readonly findings: ValidationFinding[] = []
+
+  error(code: string, message: string, offset: number, tag?: string): void {
+    this.add('error', code, message, offset, tag)
+  }
+
+  warning(code: string, message: string, offset: number, tag?: string): void {
+    this.add('warning', code, message, offset, tag)
+  }
+
+  hasErrors(): boolean {
+    return this.findings.some((f) => f.severity === 'error')
+  }
+
+  report(): ValidationReport {
+    return { valid: !this.hasErrors(), findings: this.findings }
+  }
+
+  private add(severity: FindingSeverity, code: string, message: string, offset: number, tag?: string): void {
+    this.findings.push(tag === undefined ? { severity, code, message, offset } : { severity, code, message, offset, tag })
+  }
+}
+
+// Check that the bytes in [start, end) are zero padding shorter than 4 bytes,
+// reporting anything else. Returns false if a finding was added
+export function checkPadding(
+  input: Uint8Array,
+  start: number,
+  end: number,
+  what: string,
+  findings: FindingList
+): boolean {
+  if (end - start >= 4) {
+    findings.error('EXTRANEOUS_DATA', `${end - start} bytes of extraneous data ${what}`, start)
+    return false
+  }
+  for (let i = start; i < end; i++) {
+    if (input[i] !== 0) {
+      findings.error('NONZERO_PADDING', `Padding ${what} is not zero`, i)
+      return false
+    }
+  }
+  return true
+}
+
+export interface TrailingBlock {
+  name: string // e.g. 'metadata'
+  offset: number
+  length: number
+  field: number // header offset of the block's offset field
+}
+
+// Metadata and private data follow the font data in that order, each starting
+// on a 4-byte boundary with only zero padding in between
+export function checkTrailingBlocks(
+  input: Uint8Array,
+  fontDataEnd: number,
+  blocks: TrailingBlock[],
+  findings: FindingList
+): void {
+  let cursor = fontDataEnd
+  let previous = 'after font data'
+
+  for (const block of blocks) {
+    if (block.offset === 0 || block.length === 0) continue
+
+    if (block.offset % 4 !== 0) {
+      findings.error('BLOCK_MISALIGNED', `${block.name} block does not start on a 4-byte boundary`, block.field)
+    }
+    if (block.offset < cursor) {
+      findings.error('BLOCK_OVERLAP', `${block.name} block starts at ${block.offset}, before the end of the previous block`, block.field)
+    } else {
+      checkPadding(input, cursor, block.offset, `before ${block.name} block`, findings)
+    }
+    if (block.offset + block.length > input.byteLength) {
+      findings.error('BLOCK_OUT_OF_BOUNDS', `${block.name} block extends past end of file`, block.field)
+    }
+
+    cursor = Math.max(cursor, block.offset + block.length)
+    previous = `after ${block.name} block`
+  }
+
+  if (cursor < input.byteLength) {
+    checkPadding(input, cursor, input.byteLength, previous, findings)
+  }
+}
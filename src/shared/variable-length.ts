@@ -52,3 +52,9 @@ export function sizeBase128(value: number): number {
   if (value < 0x10000000) return 4
   return 5
 }
+
+export function size255UShort(value: number): number {
+  if (value < 253) return 1
+  if (value < 762) return 2
+  return 3
+}
@@ -0,0 +1,262 @@
+// Minimal XML reader/writer for the extended metadata block
+// Supports elements, attributes, text, CDATA, comments and character references.
+// DTDs are rejected rather than expanded
+
+import { MetadataError } from './errors'
+
+export interface XmlElement {
+  name: string
+  attributes: Map<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+}
+
+// Parse a document and return its root element
+export function parseXml(xml: string): XmlElement {
+  const parser = new XmlParser(xml)
+  return parser.parseDocument()
+}
+
+// Escape text content or attribute values
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+class XmlParser {
+  private pos = 0
+
+  constructor(private readonly src: string) {
+    // Skip UTF-8 BOM
+    if (src.charCodeAt(0) === 0xfeff) {
+      this.pos = 1
+    }
+  }
+
+  parseDocument(): XmlElement {
+    this.skipMisc()
+    if (this.src.startsWith('<!DOCTYPE', this.pos)) {
+      this.fail('DOCTYPE declarations are not supported')
+    }
+    if (this.src[this.pos] !== '<') {
+      this.fail('Expected root element')
+    }
+
+    const root = this.parseElement()
+    this.skipMisc()
+    if (this.pos < this.src.length) {
+      this.fail('Unexpected content after root element')
+    }
+    return root
+  }
+
+  // Skip whitespace, comments, and processing instructions (incl. XML declaration)
+  private skipMisc(): void {
+    for (;;) {
+      this.skipWhitespace()
+      if (this.src.startsWith('<?', this.pos)) {
+        const end = this.src.indexOf('?>', this.pos + 2)
+        if (end < 0) this.fail('Unterminated processing instruction')
+        this.pos = end + 2
+      } else if (this.src.startsWith('<!--', this.pos)) {
+        this.skipComment()
+      } else {
+        return
+      }
+    }
+  }
+
+  private skipComment(): void {
+    const end = this.src.indexOf('-->', this.pos + 4)
+    if (end < 0) this.fail('Unterminated comment')
+    this.pos = end + 3
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.src.length && isWhitespace(this.src.charCodeAt(this.pos))) {
+      this.pos++
+    }
+  }
+
+  private parseElement(): XmlElement {
+    this.expect('<')
+    const name = this.parseName()
+    const attributes = new Map<string, string>()
+
+    for (;;) {
+      const hadWhitespace = this.pos < this.src.length && isWhitespace(this.src.charCodeAt(this.pos))
+      this.skipWhitespace()
+      if (this.src.startsWith('/>', this.pos)) {
+        this.pos += 2
+        return { name, attributes, children: [] }
+      }
+      if (this.src[this.pos] === '>') {
+        this.pos++
+        break
+      }
+      if (!hadWhitespace) {
+        this.fail(`Expected whitespace before attribute in <${name}>`)
+      }
+
+      const attrName = this.parseName()
+      this.skipWhitespace()
+      this.expect('=')
+      this.skipWhitespace()
+      if (attributes.has(attrName)) {
+        this.fail(`Duplicate attribute "${attrName}" in <${name}>`)
+      }
+      attributes.set(attrName, this.parseAttributeValue())
+    }
+
+    const children: XmlNode[] = []
+    let text = ''
+
+    for (;;) {
+      if (this.pos >= this.src.length) {
+        this.fail(`Unclosed element <${name}>`)
+      }
+
+      if (this.src.startsWith('</', this.pos)) {
+        this.pos += 2
+        const closeName = this.parseName()
+        if (closeName !== name) {
+          this.fail(`Mismatched closing tag </${closeName}>, expected </${name}>`)
+        }
+        this.skipWhitespace()
+        this.expect('>')
+        break
+      }
+
+      if (this.src.startsWith('<!--', this.pos)) {
+        this.skipComment()
+      } else if (this.src.startsWith('<![CDATA[', this.pos)) {
+        const end = this.src.indexOf(']]>', this.pos + 9)
+        if (end < 0) this.fail('Unterminated CDATA section')
+        text += this.src.slice(this.pos + 9, end)
+        this.pos = end + 3
+      } else if (this.src.startsWith('<?', this.pos)) {
+        const end = this.src.indexOf('?>', this.pos + 2)
+        if (end < 0) this.fail('Unterminated processing instruction')
+        this.pos = end + 2
+      } else if (this.src[this.pos] === '<') {
+        if (text) {
+          children.push(text)
+          text = ''
+        }
+        children.push(this.parseElement())
+      } else {
+        text += this.parseText()
+      }
+    }
+
+    if (text) {
+      children.push(text)
+    }
+
+    return { name, attributes, children }
+  }
+
+  private parseName(): string {
+    const start = this.pos
+    while (this.pos < this.src.length && isNameChar(this.src.charCodeAt(this.pos))) {
+      this.pos++
+    }
+    if (this.pos === start) {
+      this.fail('Expected name')
+    }
+    return this.src.slice(start, this.pos)
+  }
+
+  private parseAttributeValue(): string {
+    const quote = this.src[this.pos]
+    if (quote !== '"' && quote !== "'") {
+      this.fail('Expected quoted attribute value')
+    }
+    const end = this.src.indexOf(quote, this.pos + 1)
+    if (end < 0) this.fail('Unterminated attribute value')
+
+    const raw = this.src.slice(this.pos + 1, end)
+    if (raw.includes('<')) {
+      this.fail('"<" is not allowed in attribute values')
+    }
+    this.pos = end + 1
+    return this.decodeEntities(raw)
+  }
+
+  private parseText(): string {
+    const end = this.src.indexOf('<', this.pos)
+    const stop = end < 0 ? this.src.length : end
+    const raw = this.src.slice(this.pos, stop)
+    this.pos = stop
+    return this.decodeEntities(raw)
+  }
+
+  private decodeEntities(raw: string): string {
+    if (!raw.includes('&')) return raw
+
+    return raw.replace(/&([^;]*);?/g, (match, ref: string) => {
+      if (!match.endsWith(';')) {
+        this.fail('Unterminated entity reference')
+      }
+      if (ref.startsWith('#x')) {
+        return codePoint(parseInt(ref.slice(2), 16), () => this.fail(`Invalid character reference &${ref};`))
+      }
+      if (ref.startsWith('#')) {
+        return codePoint(parseInt(ref.slice(1), 10), () => this.fail(`Invalid character reference &${ref};`))
+      }
+      const value = PREDEFINED_ENTITIES[ref]
+      if (value === undefined) {
+        this.fail(`Unknown entity &${ref};`)
+      }
+      return value
+    })
+  }
+
+  private expect(ch: string): void {
+    if (this.src[this.pos] !== ch) {
+      this.fail(`Expected "${ch}"`)
+    }
+    this.pos++
+  }
+
+  private fail(message: string): never {
+    throw new MetadataError(`Invalid XML at offset ${this.pos}: ${message}`)
+  }
+}
+
+function codePoint(value: number, onError: () => never): string {
+  if (!Number.isFinite(value) || value <= 0 || value > 0x10ffff) {
+    onError()
+  }
+  return String.fromCodePoint(value)
+}
+
+function isWhitespace(c: number): boolean {
+  return c === 0x20 || c === 0x09 || c === 0x0a || c === 0x0d
+}
+
+// Letters, digits, and . - _ : plus any non-ASCII character
+function isNameChar(c: number): boolean {
+  return (
+    (c >= 0x61 && c <= 0x7a) ||
+    (c >= 0x41 && c <= 0x5a) ||
+    (c >= 0x30 && c <= 0x39) ||
+    c === 0x2d ||
+    c === 0x2e ||
+    c === 0x5f ||
+    c === 0x3a ||
+    c > 0x7f
+  )
+}
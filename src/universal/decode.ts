@@ -0,0 +1,28 @@
+// Format-independent decode entry point
+
+import { woffDecode } from '../woff/decode'
+import { woff2Decode } from '../woff2/decode/decode'
+import { detectFontFormat, isSfntFormat } from '../shared/format'
+import { WoffError } from '../shared/errors'
+import type { DecodeLimits } from '../shared/limits'
+import type { CompressionOptions } from '../shared/compression'
+
+// Decode WOFF or WOFF2 to TTF/OTF; SFNT input is returned untouched
+export async function decodeAny(
+  data: ArrayBuffer | Uint8Array,
+  limits: DecodeLimits & CompressionOptions = {}
+): Promise<Uint8Array> {
+  const input = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const format = detectFontFormat(input)
+
+  if (format === 'woff') {
+    return woffDecode(input, limits)
+  }
+  if (format === 'woff2') {
+    return woff2Decode(input, limits)
+  }
+  if (isSfntFormat(format)) {
+    return input
+  }
+  throw new WoffError('UNSUPPORTED_FORMAT', 'Unrecognized font format')
+}
@@ -0,0 +1,386 @@
+// TTF/OTF sanitizer, a small subset of what OTS does in browsers
+// Checks the structures rasterizers index into without bounds checks, drops
+// optional tables that can't be kept safely and rejects fonts whose required
+// tables are broken. The output is rewritten with fresh checksums
+
+import {
+  getIndexToLocFormat,
+  getNumGlyphs,
+  getNumHMetrics,
+  parseGlyph,
+  parseLocaTable,
+  parseSfnt,
+  COMP_ARG_1_AND_2_ARE_WORDS,
+  COMP_MORE_COMPONENTS,
+  COMP_WE_HAVE_A_SCALE,
+  COMP_WE_HAVE_AN_X_AND_Y_SCALE,
+  COMP_WE_HAVE_A_TWO_BY_TWO,
+  type SfntFont,
+} from '../woff2/encode/sfnt'
+import {
+  SFNT_CFF,
+  TAG_CFF,
+  TAG_CFF2,
+  TAG_CMAP,
+  TAG_DSIG,
+  TAG_GLYF,
+  TAG_HEAD,
+  TAG_HHEA,
+  TAG_HMTX,
+  TAG_LOCA,
+  TAG_MAXP,
+  TAG_NAME,
+  TAG_OS2,
+  TAG_POST,
+  tagToString,
+} from '../shared/known-tags'
+import { computeChecksum, pad4, tableChecksum } from '../shared/checksum'
+import { FindingList, type ValidationReport } from '../shared/validation'
+
+export interface SanitizeReport extends ValidationReport {
+  font: Uint8Array | null // sanitized font, null if it was rejected
+  dropped: string[] // tags of tables left out of the output
+}
+
+const SFNT_HEADER_SIZE = 12
+const SFNT_ENTRY_SIZE = 16
+const HEAD_MAGIC = 0x5f0f3cf5
+
+const REQUIRED_TABLES = [TAG_CMAP, TAG_HEAD, TAG_HHEA, TAG_HMTX, TAG_MAXP, TAG_NAME, TAG_POST]
+
+// Check a TTF/OTF font and rebuild it without unsafe optional tables.
+// Errors mean the font was rejected; warnings describe what was changed
+export function sanitize(sfnt: ArrayBuffer | Uint8Array): SanitizeReport {
+  const input = sfnt instanceof Uint8Array ? sfnt : new Uint8Array(sfnt)
+  const findings = new FindingList()
+  const dropped: string[] = []
+  const rejected = (): SanitizeReport => ({ ...findings.report(), font: null, dropped })
+
+  let font: SfntFont
+  try {
+    font = parseSfnt(input)
+  } catch (err) {
+    findings.error('INVALID_SFNT', (err as Error).message, 0)
+    return rejected()
+  }
+
+  const numTables = font.view.getUint16(4)
+  if (numTables === 0) {
+    findings.error('NO_TABLES', 'numTables is zero', 4)
+    return rejected()
+  }
+  if (font.tables.size !== numTables) {
+    findings.error('DUPLICATE_TAG', 'A table appears more than once in the directory', SFNT_HEADER_SIZE)
+    return rejected()
+  }
+
+  checkTableBounds(font, findings, dropped)
+  checkRequiredTables(font, findings)
+  if (findings.hasErrors()) {
+    return rejected()
+  }
+
+  checkHead(font, findings)
+  const numGlyphs = checkMaxp(font, findings)
+  if (numGlyphs > 0) {
+    checkMetrics(font, numGlyphs, findings)
+    if (font.tables.has(TAG_GLYF)) {
+      checkGlyphs(font, numGlyphs, findings)
+    }
+  }
+  if (findings.hasErrors()) {
+    return rejected()
+  }
+
+  // Rewriting the font invalidates any digital signature
+  if (font.tables.delete(TAG_DSIG)) {
+    findings.warning('TABLE_DROPPED', 'DSIG dropped; the signature does not cover the rewritten font', 0, 'DSIG')
+    dropped.push('DSIG')
+  }
+
+  return { ...findings.report(), font: writeSfnt(font), dropped }
+}
+
+// Tables must lie inside the file. Optional tables that don't are dropped,
+// misaligned ones are realigned when the font is rewritten
+function checkTableBounds(font: SfntFont, findings: FindingList, dropped: string[]): void {
+  let entryOffset = SFNT_HEADER_SIZE
+  for (const [tag, table] of [...font.tables]) {
+    const tagString = tagToString(tag)
+    if (table.offset + table.length > font.data.byteLength) {
+      if (isRequired(font, tag)) {
+        findings.error('TABLE_OUT_OF_BOUNDS', 'Required table extends past end of file', entryOffset, tagString)
+      } else {
+        findings.warning('TABLE_DROPPED', 'Table extends past end of file and was dropped', entryOffset, tagString)
+        font.tables.delete(tag)
+        dropped.push(tagString)
+      }
+    } else if (table.offset % 4 !== 0) {
+      findings.warning('TABLE_MISALIGNED', 'Table does not start on a 4-byte boundary', entryOffset, tagString)
+    }
+    entryOffset += SFNT_ENTRY_SIZE
+  }
+}
+
+function isRequired(font: SfntFont, tag: number): boolean {
+  if (REQUIRED_TABLES.includes(tag)) return true
+  return font.flavor === SFNT_CFF ? tag === TAG_CFF || tag === TAG_CFF2 : tag === TAG_GLYF || tag === TAG_LOCA
+}
+
+function checkRequiredTables(font: SfntFont, findings: FindingList): void {
+  for (const tag of REQUIRED_TABLES) {
+    if (!font.tables.has(tag)) {
+      findings.error('MISSING_TABLE', `Required table ${tagToString(tag)} is missing`, 0, tagToString(tag))
+    }
+  }
+  if (font.flavor === SFNT_CFF) {
+    if (!font.tables.has(TAG_CFF) && !font.tables.has(TAG_CFF2)) {
+      findings.error('MISSING_TABLE', 'OpenType font has neither CFF nor CFF2 table', 0, 'CFF ')
+    }
+  } else if (!font.tables.has(TAG_GLYF) || !font.tables.has(TAG_LOCA)) {
+    findings.error('MISSING_TABLE', 'TrueType font needs both glyf and loca tables', 0, 'glyf')
+  }
+  if (!font.tables.has(TAG_OS2)) {
+    findings.warning('MISSING_TABLE', 'OS/2 table is missing; some platforms refuse such fonts', 0, 'OS/2')
+  }
+}
+
+function checkHead(font: SfntFont, findings: FindingList): void {
+  const head = font.tables.get(TAG_HEAD)!
+  if (head.length < 54) {
+    findings.error('INVALID_TABLE', `head is ${head.length} bytes, shorter than 54`, head.offset, 'head')
+    return
+  }
+  if (font.view.getUint32(head.offset + 12) !== HEAD_MAGIC) {
+    findings.error('INVALID_TABLE', 'head magicNumber is not 0x5F0F3CF5', head.offset + 12, 'head')
+  }
+  const unitsPerEm = font.view.getUint16(head.offset + 18)
+  if (unitsPerEm < 16 || unitsPerEm > 16384) {
+    findings.error('INVALID_TABLE', `unitsPerEm ${unitsPerEm} is outside 16-16384`, head.offset + 18, 'head')
+  }
+  const indexToLocFormat = getIndexToLocFormat(font)
+  if (indexToLocFormat !== 0 && indexToLocFormat !== 1) {
+    findings.error('INVALID_TABLE', `indexToLocFormat ${indexToLocFormat} is not 0 or 1`, head.offset + 50, 'head')
+  }
+}
+
+// Returns numGlyphs, or 0 if maxp is unusable
+function checkMaxp(font: SfntFont, findings: FindingList): number {
+  const maxp = font.tables.get(TAG_MAXP)!
+  if (maxp.length < 6) {
+    findings.error('INVALID_TABLE', `maxp is ${maxp.length} bytes, shorter than 6`, maxp.offset, 'maxp')
+    return 0
+  }
+  const version = font.view.getUint32(maxp.offset)
+  if (font.tables.has(TAG_GLYF) && (version !== 0x00010000 || maxp.length < 32)) {
+    findings.error('INVALID_TABLE', 'TrueType fonts need a 32-byte version 1.0 maxp', maxp.offset, 'maxp')
+    return 0
+  }
+  const numGlyphs = getNumGlyphs(font)
+  if (numGlyphs === 0) {
+    findings.error('INVALID_TABLE', 'numGlyphs is zero', maxp.offset + 4, 'maxp')
+  }
+  return numGlyphs
+}
+
+// numberOfHMetrics must be in 1..numGlyphs and hmtx must hold all metrics
+function checkMetrics(font: SfntFont, numGlyphs: number, findings: FindingList): void {
+  const hhea = font.tables.get(TAG_HHEA)!
+  if (hhea.length < 36) {
+    findings.error('INVALID_TABLE', `hhea is ${hhea.length} bytes, shorter than 36`, hhea.offset, 'hhea')
+    return
+  }
+  const numHMetrics = getNumHMetrics(font)
+  if (numHMetrics === 0 || numHMetrics > numGlyphs) {
+    findings.error(
+      'INVALID_TABLE',
+      `numberOfHMetrics ${numHMetrics} is outside 1-${numGlyphs}`,
+      hhea.offset + 34,
+      'hhea'
+    )
+    return
+  }
+
+  const hmtx = font.tables.get(TAG_HMTX)!
+  const expected = numHMetrics * 4 + (numGlyphs - numHMetrics) * 2
+  if (hmtx.length < expected) {
+    findings.error(
+      'INVALID_TABLE',
+      `hmtx is ${hmtx.length} bytes, ${expected} needed for ${numGlyphs} glyphs`,
+      hmtx.offset,
+      'hmtx'
+    )
+  }
+}
+
+// loca must be long enough and non-decreasing, ending inside glyf, and every
+// glyph must parse within its loca entry
+function checkGlyphs(font: SfntFont, numGlyphs: number, findings: FindingList): void {
+  const loca = font.tables.get(TAG_LOCA)!
+  const glyf = font.tables.get(TAG_GLYF)!
+  const entrySize = getIndexToLocFormat(font) === 0 ? 2 : 4
+  if (loca.length < (numGlyphs + 1) * entrySize) {
+    findings.error('INVALID_LOCA', `loca is too short for ${numGlyphs} glyphs`, loca.offset, 'loca')
+    return
+  }
+
+  const offsets = parseLocaTable(font)
+  for (let i = 0; i < numGlyphs; i++) {
+    if (offsets[i + 1] < offsets[i]) {
+      findings.error('INVALID_LOCA', `loca offset for glyph ${i + 1} decreases`, loca.offset + (i + 1) * entrySize, 'loca')
+      return
+    }
+  }
+  if (offsets[numGlyphs] > glyf.length) {
+    findings.error(
+      'INVALID_LOCA',
+      `loca ends at ${offsets[numGlyphs]}, past the ${glyf.length}-byte glyf table`,
+      loca.offset + numGlyphs * entrySize,
+      'loca'
+    )
+    return
+  }
+
+  const components: number[][] = []
+  for (let glyphId = 0; glyphId < numGlyphs; glyphId++) {
+    const glyphOffset = glyf.offset + offsets[glyphId]
+    components.push([])
+    const message = checkGlyph(
+      font,
+      glyf.offset,
+      offsets[glyphId],
+      offsets[glyphId + 1] - offsets[glyphId],
+      numGlyphs,
+      components[glyphId]
+    )
+    if (message) {
+      findings.error('INVALID_GLYPH', `Glyph ${glyphId}: ${message}`, glyphOffset, 'glyf')
+    }
+  }
+  if (findings.hasErrors()) return
+
+  // Rasterizers follow components recursively, so a cycle never ends
+  const depths = new Int32Array(numGlyphs).fill(UNVISITED)
+  for (let glyphId = 0; glyphId < numGlyphs; glyphId++) {
+    const depth = nestingDepth(glyphId, 0, components, depths)
+    if (depth > MAX_COMPONENT_DEPTH) {
+      const message = depth === Infinity
+        ? 'components refer back to the glyph'
+        : `components nest deeper than ${MAX_COMPONENT_DEPTH} levels`
+      findings.error('INVALID_GLYPH', `Glyph ${glyphId}: ${message}`, glyf.offset + offsets[glyphId], 'glyf')
+      return
+    }
+  }
+}
+
+// Composite nesting limit, well past what real fonts use
+const MAX_COMPONENT_DEPTH = 16
+const UNVISITED = -1
+const VISITING = -2
+
+// Levels of components below a glyph, 0 for simple glyphs, Infinity for a
+// cycle. Gives up once past MAX_COMPONENT_DEPTH, recording the depth found so
+// far so a later walk reaching the glyph sees it as too deep, not as a cycle
+function nestingDepth(glyphId: number, level: number, components: number[][], depths: Int32Array): number {
+  if (depths[glyphId] === VISITING) return Infinity
+  if (depths[glyphId] !== UNVISITED) return depths[glyphId]
+  if (level > MAX_COMPONENT_DEPTH) return level
+
+  depths[glyphId] = VISITING
+  let depth = 0
+  for (const component of components[glyphId]) {
+    depth = Math.max(depth, nestingDepth(component, level + 1, components, depths) + 1)
+    if (depth > MAX_COMPONENT_DEPTH) break
+  }
+  if (depth !== Infinity) depths[glyphId] = depth
+  return depth
+}
+
+// Returns a description of the problem, or null if the glyph is sound.
+// Component glyph indices are added to components
+function checkGlyph(
+  font: SfntFont,
+  glyfOffset: number,
+  glyphOffset: number,
+  glyphLength: number,
+  numGlyphs: number,
+  components: number[]
+): string | null {
+  let glyph
+  try {
+    glyph = parseGlyph(font, glyfOffset, glyphOffset, glyphLength)
+  } catch (err) {
+    return (err as Error).message
+  }
+  if (glyph === null) return null
+
+  if ('nContours' in glyph) {
+    for (let i = 1; i < glyph.endPtsOfContours.length; i++) {
+      if (glyph.endPtsOfContours[i] < glyph.endPtsOfContours[i - 1]) {
+        return 'endPtsOfContours is not increasing'
+      }
+    }
+    return null
+  }
+
+  // Walk the components for their glyph indices
+  const view = new DataView(glyph.compositeData.buffer, glyph.compositeData.byteOffset, glyph.compositeData.byteLength)
+  let pos = 0
+  let flags = COMP_MORE_COMPONENTS
+  while (flags & COMP_MORE_COMPONENTS) {
+    flags = view.getUint16(pos)
+    const component = view.getUint16(pos + 2)
+    if (component >= numGlyphs) {
+      return `component glyph ${component} does not exist`
+    }
+    components.push(component)
+    pos += 4 + (flags & COMP_ARG_1_AND_2_ARE_WORDS ? 4 : 2)
+    if (flags & COMP_WE_HAVE_A_SCALE) pos += 2
+    else if (flags & COMP_WE_HAVE_AN_X_AND_Y_SCALE) pos += 4
+    else if (flags & COMP_WE_HAVE_A_TWO_BY_TWO) pos += 8
+  }
+  return null
+}
+
+// Write the remaining tables in tag order on 4-byte boundaries, with
+// recomputed table checksums and head.checkSumAdjustment
+function writeSfnt(font: SfntFont): Uint8Array {
+  const tables = [...font.tables.values()].sort((a, b) => a.tag - b.tag)
+  const numTables = tables.length
+
+  let size = SFNT_HEADER_SIZE + numTables * SFNT_ENTRY_SIZE
+  for (const table of tables) {
+    size += pad4(table.length)
+  }
+
+  const output = new Uint8Array(size)
+  const view = new DataView(output.buffer)
+  const entrySelector = Math.floor(Math.log2(numTables))
+  const searchRange = 2 ** entrySelector * 16
+  view.setUint32(0, font.flavor)
+  view.setUint16(4, numTables)
+  view.setUint16(6, searchRange)
+  view.setUint16(8, entrySelector)
+  view.setUint16(10, numTables * 16 - searchRange)
+
+  let offset = SFNT_HEADER_SIZE + numTables * SFNT_ENTRY_SIZE
+  let headOffset = -1
+  tables.forEach((table, i) => {
+    const data = font.data.subarray(table.offset, table.offset + table.length)
+    output.set(data, offset)
+    if (table.tag === TAG_HEAD) {
+      headOffset = offset
+      view.setUint32(offset + 8, 0)
+    }
+
+    const entry = SFNT_HEADER_SIZE + i * SFNT_ENTRY_SIZE
+    view.setUint32(entry, table.tag)
+    view.setUint32(entry + 4, tableChecksum(table.tag, output.subarray(offset, offset + table.length)))
+    view.setUint32(entry + 8, offset)
+    view.setUint32(entry + 12, table.length)
+    offset += pad4(table.length)
+  })
+
+  view.setUint32(headOffset + 8, (0xb1b0afba - computeChecksum(output, 0, size)) >>> 0)
+  return output
+}
@@ -0,0 +1,75 @@
+// Direct WOFF <-> WOFF2 conversion
+
+import { woffDecodeDetailed } from '../woff/decode'
+import { woffEncode } from '../woff/encode'
+import { inspectWoff } from '../woff/inspect'
+import { woff2DecodeDetailed } from '../woff2/decode/decode'
+import { inspectWoff2 } from '../woff2/decode/inspect'
+import { woff2Encode } from '../woff2/encode/encode'
+import { detectFontFormat, isSfntFormat } from '../shared/format'
+import { WoffError } from '../shared/errors'
+import type { CompressionOptions } from '../shared/compression'
+
+export interface TranscodeOptions extends CompressionOptions {
+  to: 'woff' | 'woff2'
+  quality?: number // WOFF2 Brotli quality 0-11, default 11
+  level?: number // WOFF zlib level 1-9, default 9
+}
+
+interface Container {
+  font: Uint8Array
+  metadata: string | null
+  privateData: Uint8Array | null
+  majorVersion?: number
+  minorVersion?: number
+}
+
+// Convert WOFF to WOFF2 or back, keeping the metadata block, private data
+// block and version fields. The WOFF2 encoder sorts tables by tag itself,
+// which puts loca after glyf, and the WOFF2 decoder writes its table
+// directory in tag order for the WOFF encoder to copy. Neither encoder
+// depends on the order of the decoded table data, which follows the source
+// file. Plain TTF/OTF input is encoded directly
+export async function transcode(
+  data: ArrayBuffer | Uint8Array,
+  options: TranscodeOptions
+): Promise<Uint8Array> {
+  const input = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const source = await readContainer(input, { compression: options.compression })
+
+  const encodeOptions = {
+    metadata: source.metadata ?? undefined,
+    privateData: source.privateData ?? undefined,
+    majorVersion: source.majorVersion,
+    minorVersion: source.minorVersion,
+    compression: options.compression,
+  }
+
+  if (options.to === 'woff2') {
+    return woff2Encode(source.font, { ...encodeOptions, quality: options.quality })
+  }
+  if (options.to === 'woff') {
+    if (detectFontFormat(source.font) === 'ttc') {
+      throw new WoffError('UNSUPPORTED_FORMAT', 'WOFF 1.0 cannot hold font collections')
+    }
+    return woffEncode(source.font, { ...encodeOptions, level: options.level })
+  }
+  throw new WoffError('INVALID_OPTION', `Unknown transcode target: ${String(options.to)}`)
+}
+
+async function readContainer(input: Uint8Array, options: CompressionOptions): Promise<Container> {
+  const format = detectFontFormat(input)
+
+  if (format === 'woff') {
+    const { majorVersion, minorVersion } = inspectWoff(input)
+    return { ...(await woffDecodeDetailed(input, options)), majorVersion, minorVersion }
+  }
+  if (format === 'woff2') {
+    const { majorVersion, minorVersion } = inspectWoff2(input)
+    return { ...(await woff2DecodeDetailed(input, options)), majorVersion, minorVersion }
+  }
+  if (isSfntFormat(format)) {
+    return { font: input, metadata: null, privateData: null }
+  }
+  throw new WoffError('UNSUPPORTED_FORMAT', 'Unrecognized font format')
+}
@@ -1 +1,28 @@
-export { woffDecode } from './woff/decode'
+export { woffDecode, woffDecodeDetailed, type WoffDecodeResult, type WoffDecodeOptions } from './woff/decode'
+export { inspectWoff, type WoffInfo, type WoffTableInfo } from './woff/inspect'
+export { validateWoff } from './woff/validate'
+export { WoffDecoderStream, createWoffDecodeTransform } from './woff/decode-stream'
+export { type ValidationReport, type ValidationFinding, type FindingSeverity } from './shared/validation'
+export { type ChecksumMismatch, type ChecksumVerification } from './shared/checksum'
+export { type DecodeLimits } from './shared/limits'
+export {
+  setCompressionBackends,
+  getCompressionBackends,
+  type CompressionBackends,
+  type CompressionBackendName,
+  type CompressionBackendReport,
+  type CompressionCodec,
+  type CompressionOptions,
+  type BrotliCompressOptions,
+} from './shared/compression'
+export {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+  ChecksumError,
+  type WoffErrorCode,
+  type WoffErrorDetails,
+} from './shared/errors'
@@ -1 +1,31 @@
-export { woffEncode, type WoffEncodeOptions } from './woff/encode'
+export {
+  woffEncode,
+  woffEncodeDetailed,
+  type WoffEncodeOptions,
+  type WoffEncodeResult,
+  type WoffTableReport,
+  type WoffTableStorage,
+} from './woff/encode'
+export { type ZopfliOptions } from './woff/zopfli'
+export { WoffEncoderStream, createWoffEncodeTransform } from './woff/encode-stream'
+export {
+  setCompressionBackends,
+  getCompressionBackends,
+  type CompressionBackends,
+  type CompressionBackendName,
+  type CompressionBackendReport,
+  type CompressionCodec,
+  type CompressionOptions,
+  type BrotliCompressOptions,
+} from './shared/compression'
+export {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+  ChecksumError,
+  type WoffErrorCode,
+  type WoffErrorDetails,
+} from './shared/errors'
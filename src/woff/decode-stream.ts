@@ -0,0 +1,159 @@
+// Streaming WOFF decoder
+// https://www.w3.org/TR/WOFF/
+
+import type { Transform } from 'node:stream'
+import {
+  decodeTable,
+  layoutSfnt,
+  readHeader,
+  readTableDirectory,
+  writeSfntDirectory,
+  type WoffDecodeOptions,
+  type WoffTableEntry,
+} from './decode'
+import { checkStreamable, concat, nodeTransform, tableCollector, webStream, type Emit, type StreamProcessor } from './stream'
+import { checkLimit } from '../shared/limits'
+import { TAG_HEAD, tagToString } from '../shared/known-tags'
+import {
+  checkFontChecksum,
+  checkTable,
+  computeChecksum,
+  pad4,
+  throwOnMismatch,
+  type ChecksumMismatch,
+} from '../shared/checksum'
+import { WoffFormatError } from '../shared/errors'
+
+const WOFF_HEADER_SIZE = 44
+const WOFF_ENTRY_SIZE = 20
+const SFNT_HEADER_SIZE = 12
+const SFNT_ENTRY_SIZE = 16
+
+/**
+ * Web Streams WOFF decoder, WOFF bytes in and TTF/OTF bytes out. The SFNT
+ * header is written as soon as the table directory has arrived, then each
+ * table as soon as its data has arrived and been inflated. Only one table's
+ * data is held at a time; metadata and private data are skipped
+ */
+export class WoffDecoderStream {
+  readonly readable: ReadableStream<Uint8Array>
+  readonly writable: WritableStream<Uint8Array>
+  /** Checksum mismatches, complete once readable closes; null if verifyChecksums was not set */
+  readonly checksumMismatches: ChecksumMismatch[] | null
+
+  constructor(options: WoffDecodeOptions = {}) {
+    this.checksumMismatches = options.verifyChecksums ? [] : null
+    const { readable, writable } = webStream(decoder(options, this.checksumMismatches))
+    this.readable = readable
+    this.writable = writable
+  }
+}
+
+/**
+ * Node stream.Transform counterpart of WoffDecoderStream
+ */
+export function createWoffDecodeTransform(
+  options: WoffDecodeOptions = {}
+): Transform & { readonly checksumMismatches: ChecksumMismatch[] | null } {
+  const checksumMismatches = options.verifyChecksums ? [] : null
+  return Object.assign(nodeTransform(decoder(options, checksumMismatches)), { checksumMismatches })
+}
+
+function decoder(options: WoffDecodeOptions, checksumMismatches: ChecksumMismatch[] | null): StreamProcessor {
+  let pending: Uint8Array = new Uint8Array(0) // input before the table directory is complete
+  let received = 0
+  let tables: WoffTableEntry[] = []
+  let order: number[] = []
+  let collector: ReturnType<typeof tableCollector> | null = null
+  let fontChecksum = 0
+  let headAdjustment: number | null = null
+
+  async function onTable(emit: Emit, index: number, stored: Uint8Array): Promise<void> {
+    const table = tables[order[index]]
+    const data = await decodeTable(table, stored, options)
+    if (checksumMismatches) {
+      checkTable(table.tag, data, table.checksum, checksumMismatches)
+      fontChecksum = (fontChecksum + computeChecksum(data, 0, data.byteLength)) >>> 0
+      if (table.tag === TAG_HEAD && data.byteLength >= 12) {
+        headAdjustment = new DataView(data.buffer, data.byteOffset).getUint32(8)
+      }
+    }
+    emit(data)
+    if (pad4(data.byteLength) > data.byteLength) {
+      emit(new Uint8Array(pad4(data.byteLength) - data.byteLength))
+    }
+  }
+
+  // Start decoding once the header and table directory are complete
+  function readDirectory(input: Uint8Array, emit: Emit): boolean {
+    if (input.byteLength < WOFF_HEADER_SIZE) return false
+    const view = new DataView(input.buffer, input.byteOffset, input.byteLength)
+    const { flavor, numTables } = readHeader(view)
+    const dataStart = WOFF_HEADER_SIZE + numTables * WOFF_ENTRY_SIZE
+    if (input.byteLength < dataStart) return false
+
+    checkLimit(numTables, options.maxTables, 'numTables', 12)
+    tables = readTableDirectory(view, numTables).sort((a, b) => a.tag - b.tag)
+    for (const table of tables) {
+      if (table.compLength > table.origLength) {
+        throw new WoffFormatError('INVALID_HEADER', 'Table compLength exceeds origLength', {
+          offset: table.offset,
+          tag: tagToString(table.tag),
+        })
+      }
+    }
+    const layout = layoutSfnt(tables, options)
+    order = layout.order
+
+    const ranges = order.map((i) => ({ offset: tables[i].offset, length: tables[i].compLength }))
+    checkStreamable(ranges, dataStart, order.map((i) => tagToString(tables[i].tag)), (message, tag, offset) =>
+      new WoffFormatError('INVALID_HEADER', message, { offset, tag })
+    )
+    collector = tableCollector(ranges, (index, data) => onTable(emit, index, data))
+
+    const directory = new Uint8Array(SFNT_HEADER_SIZE + numTables * SFNT_ENTRY_SIZE)
+    writeSfntDirectory(directory, flavor, tables, layout.offsets)
+    fontChecksum = computeChecksum(directory, 0, directory.byteLength)
+    emit(directory)
+    return true
+  }
+
+  return {
+    async write(chunk, emit) {
+      let start = received
+      received += chunk.byteLength
+
+      if (!collector) {
+        pending = concat(pending, chunk)
+        if (!readDirectory(pending, emit)) return
+        chunk = pending
+        pending = new Uint8Array(0)
+        start = 0
+      }
+      await collector!.feed(chunk, start)
+    },
+
+    async finish() {
+      if (!collector) {
+        throw new WoffFormatError('TRUNCATED', 'WOFF header or table directory truncated', { offset: received })
+      }
+      await collector.feed(new Uint8Array(0), received)
+      if (collector.pending >= 0) {
+        const table = tables[order[collector.pending]]
+        throw new WoffFormatError('OUT_OF_BOUNDS', 'Table data out of bounds', {
+          offset: table.offset,
+          tag: tagToString(table.tag),
+        })
+      }
+
+      if (checksumMismatches) {
+        if (headAdjustment !== null) {
+          checkFontChecksum(fontChecksum, headAdjustment, checksumMismatches)
+        }
+        if (options.verifyChecksums === 'throw') {
+          throwOnMismatch(checksumMismatches)
+        }
+      }
+    },
+  }
+}
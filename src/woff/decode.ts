@@ -1,9 +1,33 @@
 // WOFF decoder
 // https://www.w3.org/TR/WOFF/
 
+import { DecompressionError, WoffError, WoffFormatError } from '../shared/errors'
+import { TAG_HEAD, TAG_MAXP, tagToString } from '../shared/known-tags'
+import {
+  checkAdjustment,
+  checkTable,
+  pad4,
+  throwOnMismatch,
+  type ChecksumMismatch,
+  type ChecksumVerification,
+} from '../shared/checksum'
+import { checkCompressionRatio, checkLimit, outputTooLarge, readLimited, type DecodeLimits } from '../shared/limits'
+import {
+  customBackend,
+  customDecompress,
+  setProbedBackend,
+  type CompressionBackends,
+  type CompressionOptions,
+} from '../shared/compression'
+
 const WOFF_SIGNATURE = 0x774f4646 // 'wOFF'
+const WOFF_HEADER_SIZE = 44
+const WOFF_ENTRY_SIZE = 20
+const SFNT_HEADER_SIZE = 12
+const SFNT_ENTRY_SIZE = 16
 
-type DecompressFn = (data: Uint8Array) => Promise<Uint8Array>
+// Output past maxOutputSize bytes fails with a DecompressionError
+type DecompressFn = (data: Uint8Array, maxOutputSize: number) => Promise<Uint8Array>
 
 let zlibDecompress: DecompressFn | null = null
 let browserDecompress: DecompressFn | null = null
@@ -13,9 +37,17 @@ function tryLoadZlib(): DecompressFn | null {
     if (typeof process !== 'undefined' && process.versions?.node) {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const zlib = require('node:zlib')
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const { kMaxLength } = require('node:buffer')
       if (typeof zlib.inflateSync === 'function') {
-        return async (data: Uint8Array) => {
-          const result = zlib.inflateSync(data)
+        return async (data: Uint8Array, maxOutputSize: number) => {
+          let result
+          try {
+            result = zlib.inflateSync(data, { maxOutputLength: Math.max(1, Math.min(maxOutputSize, kMaxLength)) })
+          } catch (err) {
+            if ((err as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') throw outputTooLarge(maxOutputSize, err)
+            throw err
+          }
           return new Uint8Array(result.buffer, result.byteOffset, result.byteLength)
         }
       }
@@ -30,14 +62,14 @@ function tryLoadBrowserDeflate(): DecompressFn | null {
   try {
     if (typeof DecompressionStream !== 'undefined') {
       new DecompressionStream('deflate')
-      return async (data: Uint8Array): Promise<Uint8Array> => {
+      return async (data: Uint8Array, maxOutputSize: number): Promise<Uint8Array> => {
         const stream = new ReadableStream<Uint8Array>({
           start(controller) {
             controller.enqueue(data)
             controller.close()
           },
         }).pipeThrough(new DecompressionStream('deflate'))
-        return new Uint8Array(await new Response(stream).arrayBuffer())
+        return readLimited(stream, maxOutputSize)
       }
     }
   } catch {
@@ -48,57 +80,170 @@ function tryLoadBrowserDeflate(): DecompressFn | null {
 
 zlibDecompress = tryLoadZlib()
 browserDecompress = tryLoadBrowserDeflate()
+setProbedBackend('inflate', zlibDecompress ? 'node-zlib' : browserDecompress ? 'web-streams' : null)
 
-async function decompress(data: Uint8Array): Promise<Uint8Array> {
+/**
+ * Inflate a zlib stream with a custom backend or the best available one,
+ * failing with a DecompressionError once the output would exceed maxOutputSize
+ */
+export async function decompress(
+  data: Uint8Array,
+  maxOutputSize = Infinity,
+  backends?: CompressionBackends
+): Promise<Uint8Array> {
+  const custom = customBackend('inflate', backends)
+  if (custom) {
+    return customDecompress(custom, data, maxOutputSize)
+  }
   if (zlibDecompress) {
-    return zlibDecompress(data)
+    return zlibDecompress(data, maxOutputSize)
   }
   if (browserDecompress) {
-    return browserDecompress(data)
+    return browserDecompress(data, maxOutputSize)
   }
-  throw new Error('WOFF decode requires Node.js zlib or browser DecompressionStream API')
+  throw new WoffError('NO_BACKEND', 'WOFF decode requires Node.js zlib or browser DecompressionStream API')
+}
+
+/**
+ * decompress() with zlib errors reported as DecompressionError at the
+ * block's offset
+ */
+async function inflate(
+  data: Uint8Array,
+  maxOutputSize: number,
+  backends: CompressionBackends | undefined,
+  offset: number,
+  tag?: string
+): Promise<Uint8Array> {
+  try {
+    return await decompress(data, maxOutputSize, backends)
+  } catch (err) {
+    if (err instanceof DecompressionError) throw new DecompressionError(err.code, err.message, { offset, tag, cause: err })
+    if (err instanceof WoffError) throw err
+    throw new DecompressionError('DECOMPRESSION_FAILED', `zlib decompression failed: ${(err as Error).message}`, {
+      offset,
+      tag,
+      cause: err,
+    })
+  }
+}
+
+export interface WoffDecodeOptions extends DecodeLimits, CompressionOptions {
+  /**
+   * Check each table against its origChecksum and head.checkSumAdjustment
+   * against the decoded font. 'throw' rejects with a ChecksumError, 'report'
+   * lists mismatches in the woffDecodeDetailed result. Off by default
+   */
+  verifyChecksums?: ChecksumVerification
+}
+
+export interface WoffDecodeResult {
+  /** Decoded TTF/OTF data */
+  font: Uint8Array
+  /** Extended metadata XML, or null if the file has none */
+  metadata: string | null
+  /** Private data block, or null if the file has none */
+  privateData: Uint8Array | null
+  /** Checksum mismatches, or null if verifyChecksums was not set */
+  checksumMismatches: ChecksumMismatch[] | null
 }
 
 /**
  * Decode WOFF to TTF/OTF
  */
-export async function woffDecode(data: ArrayBuffer | Uint8Array): Promise<Uint8Array> {
+export async function woffDecode(
+  data: ArrayBuffer | Uint8Array,
+  options: WoffDecodeOptions = {}
+): Promise<Uint8Array> {
+  return (await woffDecodeFont(data, options)).font
+}
+
+/**
+ * Decode WOFF to TTF/OTF, also returning the extended metadata and private data blocks
+ */
+export async function woffDecodeDetailed(
+  data: ArrayBuffer | Uint8Array,
+  options: WoffDecodeOptions = {}
+): Promise<WoffDecodeResult> {
+  const { input, view, font, checksumMismatches } = await woffDecodeFont(data, options)
+  const metadata = await decodeMetadata(input, view, options)
+  const privateData = readPrivateData(input, view)
+
+  return { font, metadata, privateData, checksumMismatches }
+}
+
+async function woffDecodeFont(data: ArrayBuffer | Uint8Array, options: WoffDecodeOptions) {
   const input = data instanceof ArrayBuffer ? new Uint8Array(data) : data
   const view = new DataView(input.buffer, input.byteOffset, input.byteLength)
+  validateSignature(view)
 
-  // Validate signature
-  const signature = view.getUint32(0)
-  if (signature !== WOFF_SIGNATURE) {
-    throw new Error('Invalid WOFF signature')
+  const checksumMismatches = options.verifyChecksums ? [] : null
+  const font = await decodeFont(input, view, options, checksumMismatches)
+  if (checksumMismatches && options.verifyChecksums === 'throw') {
+    throwOnMismatch(checksumMismatches)
   }
+  return { input, view, font, checksumMismatches }
+}
 
-  const flavor = view.getUint32(4)
-  const numTables = view.getUint16(12)
-  const totalSfntSize = view.getUint32(16)
+/** WOFF header fields */
+export interface WoffHeader {
+  flavor: number
+  length: number
+  numTables: number
+  totalSfntSize: number
+  majorVersion: number
+  minorVersion: number
+  metaOffset: number
+  metaLength: number
+  metaOrigLength: number
+  privOffset: number
+  privLength: number
+}
 
-  // Allocate output buffer
-  const output = new Uint8Array(totalSfntSize)
-  const outView = new DataView(output.buffer)
+/** WOFF table directory entry */
+export interface WoffTableEntry {
+  tag: number
+  offset: number
+  compLength: number
+  origLength: number
+  checksum: number
+}
 
-  // Write SFNT header
-  outView.setUint32(0, flavor)
-  outView.setUint16(4, numTables)
-  const searchRange = 2 ** Math.floor(Math.log2(numTables)) * 16
-  outView.setUint16(6, searchRange)
-  outView.setUint16(8, Math.floor(Math.log2(numTables)))
-  outView.setUint16(10, numTables * 16 - searchRange)
+/**
+ * Read the WOFF header, validating the signature
+ */
+export function readHeader(view: DataView): WoffHeader {
+  if (view.byteLength < WOFF_HEADER_SIZE) {
+    throw new WoffFormatError('TRUNCATED', 'WOFF header truncated', { offset: view.byteLength })
+  }
+  validateSignature(view)
+
+  return {
+    flavor: view.getUint32(4),
+    length: view.getUint32(8),
+    numTables: view.getUint16(12),
+    totalSfntSize: view.getUint32(16),
+    majorVersion: view.getUint16(20),
+    minorVersion: view.getUint16(22),
+    metaOffset: view.getUint32(24),
+    metaLength: view.getUint32(28),
+    metaOrigLength: view.getUint32(32),
+    privOffset: view.getUint32(36),
+    privLength: view.getUint32(40),
+  }
+}
 
-  // Read WOFF table directory
-  const tables: Array<{
-    tag: number
-    offset: number
-    compLength: number
-    origLength: number
-    checksum: number
-  }> = []
+/**
+ * Read the WOFF table directory in file order
+ */
+export function readTableDirectory(view: DataView, numTables: number): WoffTableEntry[] {
+  if (WOFF_HEADER_SIZE + numTables * WOFF_ENTRY_SIZE > view.byteLength) {
+    throw new WoffFormatError('TRUNCATED', 'WOFF table directory out of bounds', { offset: WOFF_HEADER_SIZE })
+  }
 
+  const tables: WoffTableEntry[] = []
   for (let i = 0; i < numTables; i++) {
-    const dirOffset = 44 + i * 20
+    const dirOffset = WOFF_HEADER_SIZE + i * WOFF_ENTRY_SIZE
     tables.push({
       tag: view.getUint32(dirOffset),
       offset: view.getUint32(dirOffset + 4),
@@ -107,46 +252,189 @@ export async function woffDecode(data: ArrayBuffer | Uint8Array): Promise<Uint8A
       checksum: view.getUint32(dirOffset + 16),
     })
   }
+  return tables
+}
+
+function validateSignature(view: DataView): void {
+  const signature = view.getUint32(0)
+  if (signature !== WOFF_SIGNATURE) {
+    throw new WoffFormatError('BAD_SIGNATURE', 'Invalid WOFF signature', { offset: 0 })
+  }
+}
+
+async function decodeMetadata(
+  input: Uint8Array,
+  view: DataView,
+  options: WoffDecodeOptions
+): Promise<string | null> {
+  const metaOffset = view.getUint32(24)
+  const metaLength = view.getUint32(28)
+  const metaOrigLength = view.getUint32(32)
+  if (metaOffset === 0 || metaLength === 0) {
+    return null
+  }
+
+  if (metaOffset + metaLength > input.byteLength) {
+    throw new WoffFormatError('OUT_OF_BOUNDS', 'Metadata block out of bounds', { offset: 24 })
+  }
+
+  checkLimit(metaOrigLength, options.maxOutputSize, 'metaOrigLength', 32)
+  const compressed = input.subarray(metaOffset, metaOffset + metaLength)
+  const result = await inflate(compressed, metaOrigLength, options.compression, metaOffset)
+  if (result.byteLength !== metaOrigLength) {
+    throw new DecompressionError(
+      'DECOMPRESSION_SIZE_MISMATCH',
+      `Metadata decompression size mismatch: expected ${metaOrigLength}, got ${result.byteLength}`,
+      { offset: metaOffset }
+    )
+  }
+
+  return new TextDecoder('utf-8').decode(result)
+}
+
+function readPrivateData(input: Uint8Array, view: DataView): Uint8Array | null {
+  const privOffset = view.getUint32(36)
+  const privLength = view.getUint32(40)
+  if (privOffset === 0 || privLength === 0) {
+    return null
+  }
+
+  if (privOffset + privLength > input.byteLength) {
+    throw new WoffFormatError('OUT_OF_BOUNDS', 'Private data block out of bounds', { offset: 36 })
+  }
 
-  // Sort by tag for SFNT output
-  tables.sort((a, b) => a.tag - b.tag)
+  return input.slice(privOffset, privOffset + privLength)
+}
+
+async function decodeFont(
+  input: Uint8Array,
+  view: DataView,
+  options: WoffDecodeOptions,
+  checksumMismatches: ChecksumMismatch[] | null
+): Promise<Uint8Array> {
+  const flavor = view.getUint32(4)
+  const numTables = view.getUint16(12)
+  checkLimit(numTables, options.maxTables, 'numTables', 12)
+
+  // Read WOFF table directory, sorted by tag for SFNT output
+  const tables = readTableDirectory(view, numTables).sort((a, b) => a.tag - b.tag)
+  const layout = layoutSfnt(tables, options)
+
+  // Allocate output buffer
+  const output = new Uint8Array(layout.size)
+  writeSfntDirectory(output, flavor, tables, layout.offsets)
 
   // Decompress tables in parallel
   const decompressed = await Promise.all(
     tables.map(async (table) => {
-      const tableData = input.subarray(table.offset, table.offset + table.compLength)
-      if (table.compLength === table.origLength) {
-        return tableData
+      if (table.offset + table.compLength > input.byteLength) {
+        throw new WoffFormatError('OUT_OF_BOUNDS', 'Table data out of bounds', {
+          offset: table.offset,
+          tag: tagToString(table.tag),
+        })
       }
-      const result = await decompress(tableData)
-      if (result.byteLength !== table.origLength) {
-        throw new Error(
-          `Decompression size mismatch: expected ${table.origLength}, got ${result.byteLength}`
-        )
-      }
-      return result
+      return decodeTable(table, input.subarray(table.offset, table.offset + table.compLength), options)
     })
   )
 
-  // Write table directory and data
-  let dataOffset = 12 + numTables * 16
-
-  for (let i = 0; i < numTables; i++) {
+  let headOffset = -1
+  for (const i of layout.order) {
     const table = tables[i]
-    const dirOffset = 12 + i * 16
+    output.set(decompressed[i], layout.offsets[i])
+    if (checksumMismatches) {
+      checkTable(table.tag, decompressed[i], table.checksum, checksumMismatches)
+    }
+    if (table.tag === TAG_HEAD && table.origLength >= 12) {
+      headOffset = layout.offsets[i]
+    }
+  }
 
-    outView.setUint32(dirOffset, table.tag)
-    outView.setUint32(dirOffset + 4, table.checksum)
-    outView.setUint32(dirOffset + 8, dataOffset)
-    outView.setUint32(dirOffset + 12, table.origLength)
+  if (checksumMismatches && headOffset >= 0) {
+    checkAdjustment(output, headOffset, checksumMismatches)
+  }
+  return output
+}
 
-    output.set(decompressed[i], dataOffset)
-    dataOffset += table.origLength
+/** Where each table of a WOFF file goes in the decoded SFNT */
+export interface SfntLayout {
+  /** Decoded font size */
+  size: number
+  /** Table indices in data order */
+  order: number[]
+  /** SFNT offset of each table */
+  offsets: number[]
+}
 
-    // Pad to 4-byte boundary
-    const padding = (4 - (table.origLength % 4)) % 4
-    dataOffset += padding
+/**
+ * Lay out table data in the WOFF file's data order, which encoders keep from
+ * the original font so that its checkSumAdjustment stays valid. The output is
+ * sized from the directory rather than trusting totalSfntSize
+ */
+export function layoutSfnt(tables: WoffTableEntry[], limits: DecodeLimits): SfntLayout {
+  let size = SFNT_HEADER_SIZE + tables.length * SFNT_ENTRY_SIZE
+  let compressedSize = 0
+  const order = tables.map((_, i) => i).sort((a, b) => tables[a].offset - tables[b].offset)
+  const offsets: number[] = []
+  for (const i of order) {
+    offsets[i] = size
+    size += pad4(tables[i].origLength)
+    compressedSize += tables[i].compLength
   }
+  checkLimit(size, limits.maxOutputSize, 'Decoded font size')
+  checkCompressionRatio(size, compressedSize, limits.maxCompressionRatio)
+  return { size, order, offsets }
+}
 
-  return output.subarray(0, dataOffset)
+/**
+ * Write the SFNT header and table directory; tables must be sorted by tag
+ */
+export function writeSfntDirectory(
+  output: Uint8Array,
+  flavor: number,
+  tables: WoffTableEntry[],
+  offsets: number[]
+): void {
+  const outView = new DataView(output.buffer, output.byteOffset)
+  const numTables = tables.length
+  outView.setUint32(0, flavor)
+  outView.setUint16(4, numTables)
+  const searchRange = 2 ** Math.floor(Math.log2(numTables)) * 16
+  outView.setUint16(6, searchRange)
+  outView.setUint16(8, Math.floor(Math.log2(numTables)))
+  outView.setUint16(10, numTables * 16 - searchRange)
+
+  for (let i = 0; i < numTables; i++) {
+    const dirOffset = SFNT_HEADER_SIZE + i * SFNT_ENTRY_SIZE
+    outView.setUint32(dirOffset, tables[i].tag)
+    outView.setUint32(dirOffset + 4, tables[i].checksum)
+    outView.setUint32(dirOffset + 8, offsets[i])
+    outView.setUint32(dirOffset + 12, tables[i].origLength)
+  }
+}
+
+/**
+ * Inflate one table's stored data, checking its size and the maxp glyph count
+ */
+export async function decodeTable(
+  table: WoffTableEntry,
+  data: Uint8Array,
+  options: WoffDecodeOptions
+): Promise<Uint8Array> {
+  const tag = tagToString(table.tag)
+  let result = data
+  if (table.compLength !== table.origLength) {
+    result = await inflate(data, table.origLength, options.compression, table.offset, tag)
+    if (result.byteLength !== table.origLength) {
+      throw new DecompressionError(
+        'DECOMPRESSION_SIZE_MISMATCH',
+        `Decompression size mismatch: expected ${table.origLength}, got ${result.byteLength}`,
+        { offset: table.offset, tag }
+      )
+    }
+  }
+
+  if (table.tag === TAG_MAXP && result.byteLength >= 6) {
+    checkLimit((result[4] << 8) | result[5], options.maxGlyphs, 'numGlyphs')
+  }
+  return result
 }
@@ -0,0 +1,104 @@
+// Streaming WOFF encoder
+// https://www.w3.org/TR/WOFF/
+
+import type { Transform } from 'node:stream'
+import { compressTable, dataOrder, layoutWoff, readSfntDirectory, type CompressedTable, type WoffEncodeOptions } from './encode'
+import { checkStreamable, concat, nodeTransform, tableCollector, webStream, type StreamProcessor } from './stream'
+import { tagToString } from '../shared/known-tags'
+import { SfntError } from '../shared/errors'
+
+const SFNT_HEADER_SIZE = 12
+const SFNT_ENTRY_SIZE = 16
+
+/**
+ * Web Streams WOFF encoder, TTF/OTF bytes in and WOFF bytes out. Each table is
+ * compressed as soon as it has arrived, so only compressed data is held; the
+ * output follows the end of the input, since the WOFF table directory needs
+ * every compressed length
+ */
+export class WoffEncoderStream {
+  readonly readable: ReadableStream<Uint8Array>
+  readonly writable: WritableStream<Uint8Array>
+
+  constructor(options?: WoffEncodeOptions) {
+    const { readable, writable } = webStream(encoder(options))
+    this.readable = readable
+    this.writable = writable
+  }
+}
+
+/**
+ * Node stream.Transform counterpart of WoffEncoderStream
+ */
+export function createWoffEncodeTransform(options?: WoffEncodeOptions): Transform {
+  return nodeTransform(encoder(options))
+}
+
+function encoder(options?: WoffEncodeOptions): StreamProcessor {
+  let pending: Uint8Array = new Uint8Array(0) // input before the table directory is complete
+  let received = 0
+  let flavor = 0
+  let tables: ReturnType<typeof readSfntDirectory> = []
+  let order: number[] = []
+  const compressed: CompressedTable[] = []
+  let collector: ReturnType<typeof tableCollector> | null = null
+
+  function readDirectory(input: Uint8Array): boolean {
+    if (input.byteLength < SFNT_HEADER_SIZE) return false
+    const view = new DataView(input.buffer, input.byteOffset, input.byteLength)
+    const dataStart = SFNT_HEADER_SIZE + view.getUint16(4) * SFNT_ENTRY_SIZE
+    if (input.byteLength < dataStart) return false
+
+    flavor = view.getUint32(0)
+    tables = readSfntDirectory(view)
+    order = dataOrder(tables)
+    const ranges = order.map((i) => ({ offset: tables[i].offset, length: tables[i].length }))
+    checkStreamable(ranges, dataStart, order.map((i) => tagToString(tables[i].tag)), (message, tag, offset) =>
+      new SfntError(message, { offset, tag })
+    )
+    collector = tableCollector(ranges, async (index, data) => {
+      compressed[order[index]] = await compressTable(tables[order[index]].tag, data, options)
+    })
+    return true
+  }
+
+  return {
+    async write(chunk) {
+      let start = received
+      received += chunk.byteLength
+
+      if (!collector) {
+        pending = concat(pending, chunk)
+        if (!readDirectory(pending)) return
+        chunk = pending
+        pending = new Uint8Array(0)
+        start = 0
+      }
+      await collector!.feed(chunk, start)
+    },
+
+    async finish(emit) {
+      if (!collector) {
+        throw new SfntError('SFNT header or table directory truncated', { offset: received })
+      }
+      await collector.feed(new Uint8Array(0), received)
+      if (collector.pending >= 0) {
+        const table = tables[order[collector.pending]]
+        throw new SfntError('Table data out of bounds', { offset: table.offset, tag: tagToString(table.tag) })
+      }
+
+      const { length, parts } = await layoutWoff(flavor, tables, compressed, options)
+      let position = 0
+      for (const part of parts) {
+        if (part.offset > position) {
+          emit(new Uint8Array(part.offset - position))
+        }
+        emit(part.data)
+        position = part.offset + part.data.byteLength
+      }
+      if (length > position) {
+        emit(new Uint8Array(length - position))
+      }
+    },
+  }
+}
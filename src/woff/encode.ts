@@ -1,9 +1,60 @@
 // WOFF encoder
 // https://www.w3.org/TR/WOFF/
 
-export interface WoffEncodeOptions {
+import { serializeMetadata, type WoffMetadata } from '../shared/metadata'
+import { WoffError } from '../shared/errors'
+import { tagToString } from '../shared/known-tags'
+import {
+  checkBackendResult,
+  customBackend,
+  setProbedBackend,
+  type CompressionOptions,
+} from '../shared/compression'
+import { zopfliCompress, type ZopfliOptions } from './zopfli'
+
+export interface WoffEncodeOptions extends CompressionOptions {
   /** Compression level 1-9, default 9 */
   level?: number
+  /**
+   * Deflate with a zopfli-style optimal parser in pure JS instead of zlib,
+   * for output a few percent smaller at many times the encode time. true
+   * runs 15 iterations. Overrides level and any deflate backend
+   */
+  zopfli?: boolean | ZopfliOptions
+  /**
+   * Per-table storage by tag, e.g. { 'DSIG': 'raw' }. 'raw' stores a table
+   * uncompressed; 'compressed' fails with INVALID_OPTION if deflate doesn't
+   * shrink it, since WOFF only stores compressed data that is smaller. Other
+   * tables are compressed when that saves space
+   */
+  tableStorage?: Record<string, WoffTableStorage>
+  /** Extended metadata (XML or object model), zlib-compressed into the metadata block */
+  metadata?: string | WoffMetadata
+  /** Opaque private data block, stored uncompressed after the metadata */
+  privateData?: Uint8Array
+  /** Font version stored in the header, default 0 */
+  majorVersion?: number
+  /** Default 0 */
+  minorVersion?: number
+}
+
+export type WoffTableStorage = 'raw' | 'compressed'
+
+/** How one table was stored, in table directory order */
+export interface WoffTableReport {
+  tag: string
+  origLength: number
+  compLength: number
+  /** compLength / origLength */
+  ratio: number
+  /** Stored uncompressed */
+  raw: boolean
+}
+
+export interface WoffEncodeResult {
+  /** Encoded WOFF data */
+  woff: Uint8Array
+  tables: WoffTableReport[]
 }
 
 const WOFF_SIGNATURE = 0x774f4646 // 'wOFF'
@@ -58,28 +109,51 @@ function tryLoadBrowserDeflate(): CompressFn | null {
 
 zlibCompress = tryLoadZlib()
 browserCompress = tryLoadBrowserDeflate()
+setProbedBackend('deflate', zlibCompress ? 'node-zlib' : browserCompress ? 'web-streams' : null)
 
-async function compress(data: Uint8Array, level: number): Promise<Uint8Array> {
+async function compress(data: Uint8Array, options?: WoffEncodeOptions): Promise<Uint8Array> {
+  if (options?.zopfli) {
+    return zopfliCompress(data, options.zopfli === true ? {} : options.zopfli)
+  }
+  const level = options?.level ?? 9
+  const custom = customBackend('deflate', options?.compression)
+  if (custom) {
+    return checkBackendResult(await custom(data, level))
+  }
   if (zlibCompress) {
     return zlibCompress(data, level)
   }
   if (browserCompress) {
     return browserCompress(data, level)
   }
-  throw new Error('WOFF encode requires Node.js zlib or browser CompressionStream API')
+  throw new WoffError('NO_BACKEND', 'WOFF encode requires Node.js zlib or browser CompressionStream API')
 }
 
 function pad4(n: number): number {
   return (n + 3) & ~3
 }
 
-interface TableInfo {
+/** SFNT table directory entry */
+export interface TableInfo {
   tag: number
   checksum: number
   offset: number
   length: number
 }
 
+/** A table's data as stored in the WOFF file */
+export interface CompressedTable {
+  data: Uint8Array
+  compLength: number
+  origLength: number
+}
+
+/** One block of the WOFF file at its offset; gaps between blocks are zero padding */
+export interface WoffPart {
+  offset: number
+  data: Uint8Array
+}
+
 /**
  * Encode TTF/OTF to WOFF
  */
@@ -87,15 +161,51 @@ export async function woffEncode(
   data: ArrayBuffer | Uint8Array,
   options?: WoffEncodeOptions
 ): Promise<Uint8Array> {
+  return (await woffEncodeDetailed(data, options)).woff
+}
+
+/**
+ * Encode TTF/OTF to WOFF, also reporting how each table was stored
+ */
+export async function woffEncodeDetailed(
+  data: ArrayBuffer | Uint8Array,
+  options?: WoffEncodeOptions
+): Promise<WoffEncodeResult> {
   const input = data instanceof ArrayBuffer ? new Uint8Array(data) : data
   const view = new DataView(input.buffer, input.byteOffset, input.byteLength)
-  const level = options?.level ?? 9
-
-  // Parse SFNT header
+  // Parse SFNT header and table directory
   const flavor = view.getUint32(0)
-  const numTables = view.getUint16(4)
+  const tables = readSfntDirectory(view)
+
+  // Compress tables in parallel
+  const compressed = await Promise.all(
+    tables.map((t) => compressTable(t.tag, input.subarray(t.offset, t.offset + t.length), options))
+  )
+
+  const { length, parts } = await layoutWoff(flavor, tables, compressed, options)
+  const woff = new Uint8Array(length)
+  for (const part of parts) {
+    woff.set(part.data, part.offset)
+  }
+
+  const report = tables.map((t, i) => {
+    const { compLength, origLength } = compressed[i]
+    return {
+      tag: tagToString(t.tag),
+      origLength,
+      compLength,
+      ratio: origLength ? compLength / origLength : 1,
+      raw: compLength === origLength,
+    }
+  })
+  return { woff, tables: report }
+}
 
-  // Read table directory
+/**
+ * Read the SFNT table directory
+ */
+export function readSfntDirectory(view: DataView): TableInfo[] {
+  const numTables = view.getUint16(4)
   const tables: TableInfo[] = []
   for (let i = 0; i < numTables; i++) {
     const offset = SFNT_HEADER_SIZE + i * SFNT_ENTRY_SIZE
@@ -106,18 +216,61 @@ export async function woffEncode(
       length: view.getUint32(offset + 12),
     })
   }
+  return tables
+}
 
-  // Compress tables in parallel
-  const compressed = await Promise.all(
-    tables.map(async (t) => {
-      const raw = input.subarray(t.offset, t.offset + t.length)
-      const comp = await compress(raw, level)
-      // Use compressed only if smaller
-      return comp.length < raw.length
-        ? { data: comp, compLength: comp.length, origLength: t.length }
-        : { data: raw, compLength: t.length, origLength: t.length }
-    })
-  )
+/**
+ * zlib-compress a table, keeping it uncompressed unless that is smaller or
+ * tableStorage says otherwise
+ */
+export async function compressTable(
+  tag: number,
+  raw: Uint8Array,
+  options?: WoffEncodeOptions
+): Promise<CompressedTable> {
+  const tagName = tagToString(tag)
+  const storage = options?.tableStorage?.[tagName]
+  if (storage !== undefined && storage !== 'raw' && storage !== 'compressed') {
+    throw new WoffError('INVALID_OPTION', `Unknown table storage for ${tagName}: ${String(storage)}`, { tag: tagName })
+  }
+
+  const stored = { data: raw, compLength: raw.length, origLength: raw.length }
+  if (storage === 'raw') {
+    return stored
+  }
+  const comp = await compress(raw, options)
+  if (comp.length < raw.length) {
+    return { data: comp, compLength: comp.length, origLength: raw.length }
+  }
+  if (storage === 'compressed') {
+    throw new WoffError(
+      'INVALID_OPTION',
+      `Table ${tagName} does not shrink when compressed (${raw.length} → ${comp.length} bytes), so WOFF must store it uncompressed`,
+      { tag: tagName }
+    )
+  }
+  return stored
+}
+
+/**
+ * Order of table data in the output: the input's physical table order, so
+ * the decoded font keeps a valid checkSumAdjustment
+ */
+export function dataOrder(tables: TableInfo[]): number[] {
+  return tables.map((_, i) => i).sort((a, b) => tables[a].offset - tables[b].offset)
+}
+
+/**
+ * Lay out the WOFF file around already compressed tables: the header and
+ * table directory, table data, metadata and private data, in file order
+ */
+export async function layoutWoff(
+  flavor: number,
+  tables: TableInfo[],
+  compressed: CompressedTable[],
+  options?: WoffEncodeOptions
+): Promise<{ length: number; parts: WoffPart[] }> {
+  const numTables = tables.length
 
   // Calculate totalSfntSize (what the decompressed font would be)
   let totalSfntSize = SFNT_HEADER_SIZE + numTables * SFNT_ENTRY_SIZE
@@ -125,51 +278,69 @@ export async function woffEncode(
     totalSfntSize += pad4(t.length)
   }
 
-  // Calculate WOFF output size
-  let woffLength = WOFF_HEADER_SIZE + numTables * WOFF_ENTRY_SIZE
-  for (const c of compressed) {
-    woffLength += pad4(c.compLength)
+  // Compress extended metadata (UTF-8 XML); the spec requires it be compressed
+  let metadata: Uint8Array | null = null
+  let metaOrigLength = 0
+  if (options?.metadata) {
+    const xml = typeof options.metadata === 'string'
+      ? options.metadata
+      : serializeMetadata(options.metadata)
+    const metadataBytes = new TextEncoder().encode(xml)
+    metaOrigLength = metadataBytes.byteLength
+    metadata = await compress(metadataBytes, options)
   }
 
-  // Allocate output
-  const output = new Uint8Array(woffLength)
-  const outView = new DataView(output.buffer)
+  // Directory entries follow the input directory (already sorted by tag in a
+  // valid SFNT), table data follows the input's physical table order
+  const header = new Uint8Array(WOFF_HEADER_SIZE + numTables * WOFF_ENTRY_SIZE)
+  const parts: WoffPart[] = [{ offset: 0, data: header }]
+  const dataOffsets: number[] = []
+  let woffLength = header.byteLength
+  for (const i of dataOrder(tables)) {
+    dataOffsets[i] = woffLength
+    parts.push({ offset: woffLength, data: compressed[i].data })
+    woffLength += pad4(compressed[i].compLength)
+  }
+
+  // Metadata follows the (already 4-byte aligned) table data, then the
+  // private block on the next 4-byte boundary
+  const privateData = options?.privateData?.byteLength ? options.privateData : null
+  const metaOffset = metadata ? woffLength : 0
+  if (metadata) {
+    parts.push({ offset: metaOffset, data: metadata })
+    woffLength += metadata.byteLength
+  }
+  const privOffset = privateData ? pad4(woffLength) : 0
+  if (privateData) {
+    parts.push({ offset: privOffset, data: privateData })
+    woffLength = privOffset + privateData.byteLength
+  }
 
   // Write WOFF header
+  const outView = new DataView(header.buffer)
   outView.setUint32(0, WOFF_SIGNATURE)
   outView.setUint32(4, flavor)
   outView.setUint32(8, woffLength)
   outView.setUint16(12, numTables)
   outView.setUint16(14, 0) // reserved
   outView.setUint32(16, totalSfntSize)
-  outView.setUint16(20, 0) // majorVersion
-  outView.setUint16(22, 0) // minorVersion
-  outView.setUint32(24, 0) // metaOffset
-  outView.setUint32(28, 0) // metaLength
-  outView.setUint32(32, 0) // metaOrigLength
-  outView.setUint32(36, 0) // privOffset
-  outView.setUint32(40, 0) // privLength
-
-  // Write table directory and data
-  // Tables should be in same order as input (already sorted by tag in valid SFNT)
-  let dataOffset = WOFF_HEADER_SIZE + numTables * WOFF_ENTRY_SIZE
+  outView.setUint16(20, options?.majorVersion ?? 0) // majorVersion
+  outView.setUint16(22, options?.minorVersion ?? 0) // minorVersion
+  outView.setUint32(24, metaOffset) // metaOffset
+  outView.setUint32(28, metadata?.byteLength ?? 0) // metaLength
+  outView.setUint32(32, metaOrigLength) // metaOrigLength
+  outView.setUint32(36, privOffset) // privOffset
+  outView.setUint32(40, privateData?.byteLength ?? 0) // privLength
 
+  // Write table directory
   for (let i = 0; i < numTables; i++) {
-    const t = tables[i]
-    const c = compressed[i]
     const dirOffset = WOFF_HEADER_SIZE + i * WOFF_ENTRY_SIZE
-
-    // Directory entry
-    outView.setUint32(dirOffset, t.tag)
-    outView.setUint32(dirOffset + 4, dataOffset)
-    outView.setUint32(dirOffset + 8, c.compLength)
-    outView.setUint32(dirOffset + 12, c.origLength)
-    outView.setUint32(dirOffset + 16, t.checksum)
-
-    // Table data
-    output.set(c.data, dataOffset)
-    dataOffset += pad4(c.compLength)
+    outView.setUint32(dirOffset, tables[i].tag)
+    outView.setUint32(dirOffset + 4, dataOffsets[i])
+    outView.setUint32(dirOffset + 8, compressed[i].compLength)
+    outView.setUint32(dirOffset + 12, compressed[i].origLength)
+    outView.setUint32(dirOffset + 16, tables[i].checksum)
   }
 
-  return output
+  return { length: woffLength, parts }
 }
@@ -1,2 +1,38 @@
-export { woffDecode } from './decode'
-export { woffEncode, type WoffEncodeOptions } from './encode'
+export { woffDecode, woffDecodeDetailed, type WoffDecodeResult, type WoffDecodeOptions } from './decode'
+export { inspectWoff, type WoffInfo, type WoffTableInfo } from './inspect'
+export { validateWoff } from './validate'
+export { WoffDecoderStream, createWoffDecodeTransform } from './decode-stream'
+export { type ValidationReport, type ValidationFinding, type FindingSeverity } from '../shared/validation'
+export {
+  woffEncode,
+  woffEncodeDetailed,
+  type WoffEncodeOptions,
+  type WoffEncodeResult,
+  type WoffTableReport,
+  type WoffTableStorage,
+} from './encode'
+export { type ZopfliOptions } from './zopfli'
+export { WoffEncoderStream, createWoffEncodeTransform } from './encode-stream'
+export { type ChecksumMismatch, type ChecksumVerification } from '../shared/checksum'
+export { type DecodeLimits } from '../shared/limits'
+export {
+  setCompressionBackends,
+  getCompressionBackends,
+  type CompressionBackends,
+  type CompressionBackendName,
+  type CompressionBackendReport,
+  type CompressionCodec,
+  type CompressionOptions,
+  type BrotliCompressOptions,
+} from '../shared/compression'
+export {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+  ChecksumError,
+  type WoffErrorCode,
+  type WoffErrorDetails,
+} from '../shared/errors'
@@ -0,0 +1,65 @@
+// WOFF header and table directory inspection
+// https://www.w3.org/TR/WOFF/
+
+import { readHeader, readTableDirectory } from './decode'
+import { tagToString } from '../shared/known-tags'
+
+export interface WoffTableInfo {
+  tag: string
+  /** Offset of the table data in the WOFF file */
+  offset: number
+  compLength: number
+  origLength: number
+  checksum: number
+  /** False when the table is stored uncompressed (compLength equals origLength) */
+  compressed: boolean
+}
+
+export interface WoffInfo {
+  flavor: number
+  length: number
+  numTables: number
+  totalSfntSize: number
+  /** Sum of the stored table lengths */
+  totalCompressedSize: number
+  majorVersion: number
+  minorVersion: number
+  metadata: { offset: number; length: number; origLength: number } | null
+  privateData: { offset: number; length: number } | null
+  /** Tables in directory order */
+  tables: WoffTableInfo[]
+}
+
+/**
+ * Read WOFF header fields and table directory without decompressing anything
+ */
+export function inspectWoff(data: ArrayBuffer | Uint8Array): WoffInfo {
+  const input = data instanceof ArrayBuffer ? new Uint8Array(data) : data
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength)
+  const header = readHeader(view)
+  const tables = readTableDirectory(view, header.numTables)
+
+  return {
+    flavor: header.flavor,
+    length: header.length,
+    numTables: header.numTables,
+    totalSfntSize: header.totalSfntSize,
+    totalCompressedSize: tables.reduce((sum, table) => sum + table.compLength, 0),
+    majorVersion: header.majorVersion,
+    minorVersion: header.minorVersion,
+    metadata: header.metaOffset !== 0 && header.metaLength !== 0
+      ? { offset: header.metaOffset, length: header.metaLength, origLength: header.metaOrigLength }
+      : null,
+    privateData: header.privOffset !== 0 && header.privLength !== 0
+      ? { offset: header.privOffset, length: header.privLength }
+      : null,
+    tables: tables.map((table) => ({
+      tag: tagToString(table.tag),
+      offset: table.offset,
+      compLength: table.compLength,
+      origLength: table.origLength,
+      checksum: table.checksum,
+      compressed: table.compLength < table.origLength,
+    })),
+  }
+}
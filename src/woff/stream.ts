@@ -0,0 +1,113 @@
+// Stream plumbing shared by the streaming WOFF decoder and encoder
+
+import type { Transform } from 'node:stream'
+import { WoffError } from '../shared/errors'
+
+export type Emit = (chunk: Uint8Array) => void
+
+/** Stream logic shared by the Web Streams and Node stream wrappers */
+export interface StreamProcessor {
+  write(chunk: Uint8Array, emit: Emit): Promise<void>
+  finish(emit: Emit): Promise<void>
+}
+
+export function webStream(processor: StreamProcessor): TransformStream<Uint8Array, Uint8Array> {
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform: (chunk, controller) => processor.write(chunk, (data) => controller.enqueue(data)),
+    flush: (controller) => processor.finish((data) => controller.enqueue(data)),
+  })
+}
+
+export function nodeTransform(processor: StreamProcessor): Transform {
+  let NodeTransform: typeof Transform | undefined
+  try {
+    if (typeof process !== 'undefined' && process.versions?.node) {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      NodeTransform = require('node:stream').Transform
+    }
+  } catch {
+    // Not in Node
+  }
+  if (!NodeTransform) {
+    throw new WoffError('NO_BACKEND', 'Node stream.Transform requires Node.js; use the Web Streams classes instead')
+  }
+
+  const stream: Transform = new NodeTransform({
+    transform(chunk: Uint8Array, _encoding, callback) {
+      const data = new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+      processor.write(data, (out) => stream.push(out)).then(() => callback(), callback)
+    },
+    flush(callback) {
+      processor.finish((out) => stream.push(out)).then(() => callback(), callback)
+    },
+  })
+  return stream
+}
+
+/** File range of one table's data */
+export interface TableRange {
+  offset: number
+  length: number
+}
+
+/**
+ * Collects table data from input chunks, one table at a time in file order.
+ * Ranges must be sorted and must not overlap
+ */
+export function tableCollector(ranges: TableRange[], onTable: (index: number, data: Uint8Array) => Promise<void>) {
+  let next = 0
+  let current: Uint8Array | null = null
+
+  return {
+    /** Take table data from a chunk that starts at input offset start */
+    async feed(chunk: Uint8Array, start: number): Promise<void> {
+      const end = start + chunk.byteLength
+      while (next < ranges.length) {
+        const { offset, length } = ranges[next]
+        if (end < offset) return
+
+        current ??= new Uint8Array(length)
+        const from = Math.max(offset - start, 0)
+        const to = Math.min(offset + length - start, chunk.byteLength)
+        if (to > from) {
+          current.set(chunk.subarray(from, to), start + from - offset)
+        }
+        if (end < offset + length) return
+
+        const data = current
+        current = null
+        await onTable(next++, data)
+      }
+    },
+    /** Index of the first table not yet complete, or -1 */
+    get pending(): number {
+      return next < ranges.length ? next : -1
+    },
+  }
+}
+
+/**
+ * Table data must follow the directory without overlapping, since input that
+ * has streamed past is not kept
+ */
+export function checkStreamable(
+  ranges: TableRange[],
+  dataStart: number,
+  tags: string[],
+  fail: (message: string, tag: string, offset: number) => Error
+): void {
+  let end = dataStart
+  for (let i = 0; i < ranges.length; i++) {
+    if (ranges[i].offset < end) {
+      throw fail('Table data overlaps earlier data and cannot be streamed', tags[i], ranges[i].offset)
+    }
+    end = ranges[i].offset + ranges[i].length
+  }
+}
+
+export function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.byteLength + b.byteLength)
+  result.set(a)
+  result.set(b, a.byteLength)
+  return result
+}
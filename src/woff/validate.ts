@@ -0,0 +1,241 @@
+// WOFF conformance validator
+// https://www.w3.org/TR/WOFF/
+
+import { decompress, readHeader, readTableDirectory, type WoffTableEntry } from './decode'
+import { pad4, tableChecksum } from '../shared/checksum'
+import { tagToString } from '../shared/known-tags'
+import { parseXml } from '../shared/xml'
+import { DecompressionError } from '../shared/errors'
+import { FindingList, checkPadding, checkTrailingBlocks, type ValidationReport } from '../shared/validation'
+
+const WOFF_SIGNATURE = 0x774f4646 // 'wOFF'
+const WOFF_HEADER_SIZE = 44
+const WOFF_ENTRY_SIZE = 20
+const SFNT_HEADER_SIZE = 12
+const SFNT_ENTRY_SIZE = 16
+
+/**
+ * Validate a WOFF 1.0 file, reporting every conformance violation found
+ */
+export async function validateWoff(data: ArrayBuffer | Uint8Array): Promise<ValidationReport> {
+  const input = data instanceof ArrayBuffer ? new Uint8Array(data) : data
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength)
+  const findings = new FindingList()
+
+  if (input.byteLength < WOFF_HEADER_SIZE) {
+    findings.error('TRUNCATED', `File is ${input.byteLength} bytes, shorter than the 44-byte header`, 0)
+    return findings.report()
+  }
+  if (view.getUint32(0) !== WOFF_SIGNATURE) {
+    findings.error('BAD_SIGNATURE', 'Signature is not wOFF', 0)
+    return findings.report()
+  }
+
+  const header = readHeader(view)
+  if (header.length !== input.byteLength) {
+    findings.error('LENGTH_MISMATCH', `Header length ${header.length} does not match file size ${input.byteLength}`, 8)
+  }
+  if (view.getUint16(14) !== 0) {
+    findings.error('RESERVED_NONZERO', 'Reserved header field is not zero', 14)
+  }
+  if (header.numTables === 0) {
+    findings.error('NO_TABLES', 'numTables is zero', 12)
+    return findings.report()
+  }
+  if ((header.metaOffset === 0) !== (header.metaLength === 0) ||
+      (header.metaOffset === 0 && header.metaOrigLength !== 0)) {
+    findings.error('INVALID_BLOCK_FIELDS', 'metaOffset, metaLength and metaOrigLength must all be zero when there is no metadata', 24)
+  }
+  if ((header.privOffset === 0) !== (header.privLength === 0)) {
+    findings.error('INVALID_BLOCK_FIELDS', 'privOffset and privLength must both be zero when there is no private data', 36)
+  }
+
+  const directoryEnd = WOFF_HEADER_SIZE + header.numTables * WOFF_ENTRY_SIZE
+  if (directoryEnd > input.byteLength) {
+    findings.error('TRUNCATED', `Table directory (${header.numTables} entries) extends past end of file`, WOFF_HEADER_SIZE)
+    return findings.report()
+  }
+
+  const tables = readTableDirectory(view, header.numTables)
+  checkDirectory(tables, findings)
+  const fontDataEnd = checkTableLayout(input, tables, directoryEnd, findings)
+
+  const expectedSfntSize = tables.reduce(
+    (size, table) => size + pad4(table.origLength),
+    SFNT_HEADER_SIZE + SFNT_ENTRY_SIZE * tables.length
+  )
+  if (header.totalSfntSize !== expectedSfntSize) {
+    findings.error(
+      'TOTAL_SFNT_SIZE_MISMATCH',
+      `totalSfntSize ${header.totalSfntSize} does not match the ${expectedSfntSize} bytes implied by the table directory`,
+      16
+    )
+  }
+
+  checkTrailingBlocks(input, fontDataEnd, [
+    { name: 'metadata', offset: header.metaOffset, length: header.metaLength, field: 24 },
+    { name: 'private data', offset: header.privOffset, length: header.privLength, field: 36 },
+  ], findings)
+
+  await checkTableData(input, tables, findings)
+  await checkMetadata(input, header.metaOffset, header.metaLength, header.metaOrigLength, findings)
+
+  return findings.report()
+}
+
+/**
+ * Directory entries must be sorted by tag with no duplicates, and compLength
+ * can never exceed origLength
+ */
+function checkDirectory(tables: WoffTableEntry[], findings: FindingList): void {
+  for (let i = 0; i < tables.length; i++) {
+    const table = tables[i]
+    const entryOffset = WOFF_HEADER_SIZE + i * WOFF_ENTRY_SIZE
+    const tag = tagToString(table.tag)
+
+    if (i > 0 && table.tag === tables[i - 1].tag) {
+      findings.error('DUPLICATE_TAG', 'Table appears more than once', entryOffset, tag)
+    } else if (i > 0 && table.tag < tables[i - 1].tag) {
+      findings.error('DIRECTORY_NOT_SORTED', 'Table directory is not sorted in ascending tag order', entryOffset, tag)
+    }
+    if (table.compLength > table.origLength) {
+      findings.error(
+        'INVALID_TABLE_LENGTH',
+        `compLength ${table.compLength} is larger than origLength ${table.origLength}`,
+        entryOffset + 8,
+        tag
+      )
+    }
+  }
+}
+
+/**
+ * Table data follows the directory, each table on a 4-byte boundary, without
+ * overlaps or gaps beyond zero padding. Returns the end of the last table
+ */
+function checkTableLayout(
+  input: Uint8Array,
+  tables: WoffTableEntry[],
+  directoryEnd: number,
+  findings: FindingList
+): number {
+  const byOffset = tables
+    .map((table, index) => ({ table, entryOffset: WOFF_HEADER_SIZE + index * WOFF_ENTRY_SIZE }))
+    .sort((a, b) => a.table.offset - b.table.offset)
+
+  let cursor = directoryEnd
+  for (const { table, entryOffset } of byOffset) {
+    const tag = tagToString(table.tag)
+
+    if (table.offset % 4 !== 0) {
+      findings.error('BLOCK_MISALIGNED', 'Table data does not start on a 4-byte boundary', entryOffset + 4, tag)
+    }
+    if (table.offset + table.compLength > input.byteLength) {
+      findings.error('BLOCK_OUT_OF_BOUNDS', 'Table data extends past end of file', entryOffset + 4, tag)
+    }
+    if (table.offset < cursor) {
+      const what = cursor === directoryEnd ? 'the table directory' : 'the previous table'
+      findings.error('BLOCK_OVERLAP', `Table data at ${table.offset} overlaps ${what}`, entryOffset + 4, tag)
+    } else {
+      checkPadding(input, cursor, table.offset, `before table ${tag}`, findings)
+    }
+
+    cursor = Math.max(cursor, table.offset + table.compLength)
+  }
+
+  return cursor
+}
+
+/**
+ * Compressed tables must inflate to exactly origLength, and are never
+ * inflated past it. Checksum mismatches are common in the wild and don't
+ * prevent decoding, so they are warnings
+ */
+async function checkTableData(input: Uint8Array, tables: WoffTableEntry[], findings: FindingList): Promise<void> {
+  for (let i = 0; i < tables.length; i++) {
+    const table = tables[i]
+    const entryOffset = WOFF_HEADER_SIZE + i * WOFF_ENTRY_SIZE
+    const tag = tagToString(table.tag)
+    if (table.offset + table.compLength > input.byteLength || table.compLength > table.origLength) {
+      continue
+    }
+
+    let tableData = input.subarray(table.offset, table.offset + table.compLength)
+    if (table.compLength < table.origLength) {
+      try {
+        tableData = await decompress(tableData, table.origLength)
+      } catch (err) {
+        if (isOverrun(err)) {
+          findings.error(
+            'DECOMPRESSION_SIZE_MISMATCH',
+            `Table inflates past origLength ${table.origLength}`,
+            table.offset,
+            tag
+          )
+          continue
+        }
+        findings.error('DECOMPRESSION_FAILED', `Table data is not a valid zlib stream: ${(err as Error).message}`, table.offset, tag)
+        continue
+      }
+      if (tableData.byteLength !== table.origLength) {
+        findings.error(
+          'DECOMPRESSION_SIZE_MISMATCH',
+          `Table inflated to ${tableData.byteLength} bytes, origLength is ${table.origLength}`,
+          table.offset,
+          tag
+        )
+        continue
+      }
+    }
+
+    if (tableChecksum(table.tag, tableData) !== table.checksum) {
+      findings.warning('CHECKSUM_MISMATCH', 'origChecksum does not match the table data', entryOffset + 16, tag)
+    }
+  }
+}
+
+/**
+ * Metadata must inflate to metaOrigLength, and is never inflated past it, and
+ * be well-formed UTF-8 XML
+ */
+async function checkMetadata(
+  input: Uint8Array,
+  metaOffset: number,
+  metaLength: number,
+  metaOrigLength: number,
+  findings: FindingList
+): Promise<void> {
+  if (metaOffset === 0 || metaLength === 0 || metaOffset + metaLength > input.byteLength) {
+    return
+  }
+
+  let xml: Uint8Array
+  try {
+    xml = await decompress(input.subarray(metaOffset, metaOffset + metaLength), metaOrigLength)
+  } catch (err) {
+    if (isOverrun(err)) {
+      findings.error('METADATA_SIZE_MISMATCH', `Metadata inflates past metaOrigLength ${metaOrigLength}`, metaOffset)
+      return
+    }
+    findings.error('METADATA_DECOMPRESSION_FAILED', `Metadata is not a valid zlib stream: ${(err as Error).message}`, metaOffset)
+    return
+  }
+
+  if (xml.byteLength !== metaOrigLength) {
+    findings.error('METADATA_SIZE_MISMATCH', `Metadata inflated to ${xml.byteLength} bytes, metaOrigLength is ${metaOrigLength}`, metaOffset)
+    return
+  }
+
+  try {
+    parseXml(new TextDecoder('utf-8', { fatal: true }).decode(xml))
+  } catch (err) {
+    findings.error('INVALID_METADATA', `Metadata is not well-formed UTF-8 XML: ${(err as Error).message}`, metaOffset)
+  }
+}
+
+/**
+ * Decompression stopped at its maximum output size
+ */
+function isOverrun(err: unknown): boolean {
+  return err instanceof DecompressionError && err.code === 'DECOMPRESSION_SIZE_MISMATCH'
+}
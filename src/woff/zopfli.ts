@@ -0,0 +1,599 @@
+// Zopfli-style DEFLATE encoder
+// https://github.com/google/zopfli
+
+import { WoffError } from '../shared/errors'
+
+/** Options for zopfli-style compression */
+export interface ZopfliOptions {
+  /** Optimization passes per block, default 15. More passes rarely help much past that */
+  iterations?: number
+}
+
+const WINDOW_SIZE = 32768
+const WINDOW_MASK = WINDOW_SIZE - 1
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const MAX_CHAIN = 256 // hash chain entries examined per position
+const HASH_SHIFT = 17 // 15-bit hash
+const MASTER_BLOCK_SIZE = 1 << 20 // input parsed at once, bounding memory use
+const MAX_STORED = 65535
+const DEFAULT_ITERATIONS = 15
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+]
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+const NUM_LIT_LEN = 286
+const NUM_DIST = 30
+const END_OF_BLOCK = 256
+
+/** Length code (0-28) of each match length */
+const LENGTH_CODE = new Uint8Array(MAX_MATCH + 1)
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+  const end = code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : MAX_MATCH + 1
+  LENGTH_CODE.fill(code, LENGTH_BASE[code], end)
+}
+
+function distCode(dist: number): number {
+  if (dist <= 4) return dist - 1
+  const x = dist - 1
+  const bits = 31 - Math.clz32(x)
+  return 2 * bits + ((x >> (bits - 1)) & 1)
+}
+
+/**
+ * Compress data to a zlib stream, searching for the cheapest LZ77 parse
+ * under a cost model taken from the previous parse's symbol statistics, as
+ * zopfli does. Far slower than zlib level 9, and a few percent smaller
+ */
+export function zopfliCompress(data: Uint8Array, options: ZopfliOptions = {}): Uint8Array {
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new WoffError('INVALID_OPTION', `Zopfli iterations must be a positive integer, got ${iterations}`)
+  }
+
+  const writer = new BitWriter(data.byteLength + 1024)
+  writer.write(0x78, 8) // deflate, 32K window
+  writer.write(0xda, 8) // maximum compression
+  if (data.byteLength === 0) {
+    writer.write(1, 1) // final
+    writer.write(1, 2) // fixed Huffman
+    writer.write(0, 7) // end of block
+  }
+  for (let from = 0; from < data.byteLength; from += MASTER_BLOCK_SIZE) {
+    const to = Math.min(from + MASTER_BLOCK_SIZE, data.byteLength)
+    const lz77 = optimize(data, from, to, iterations)
+    writeBlock(writer, data, from, to, lz77, to === data.byteLength)
+  }
+  writer.alignToByte()
+
+  const adler = adler32(data)
+  writer.write(adler >>> 24, 8)
+  writer.write((adler >>> 16) & 0xff, 8)
+  writer.write((adler >>> 8) & 0xff, 8)
+  writer.write(adler & 0xff, 8)
+  return writer.finish()
+}
+
+function adler32(data: Uint8Array): number {
+  let a = 1
+  let b = 0
+  for (let i = 0; i < data.byteLength; ) {
+    const end = Math.min(i + 5552, data.byteLength) // largest run that can't overflow
+    for (; i < end; i++) {
+      a += data[i]
+      b += a
+    }
+    a %= 65521
+    b %= 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+/**
+ * For each position, the matches that beat every closer one: lengths up to
+ * length[m] are best made at distance dist[m]
+ */
+interface Matches {
+  start: Uint32Array // first match of each position; start[n] ends the last
+  length: Uint16Array
+  dist: Uint16Array
+}
+
+function findMatches(data: Uint8Array, from: number, to: number): Matches {
+  const head = new Int32Array(1 << (32 - HASH_SHIFT)).fill(-1)
+  const prev = new Int32Array(WINDOW_SIZE)
+  const hash = (i: number) => Math.imul((data[i] << 16) | (data[i + 1] << 8) | data[i + 2], 0x9e3779b1) >>> HASH_SHIFT
+  const insert = (i: number) => {
+    const h = hash(i)
+    prev[i & WINDOW_MASK] = head[h]
+    head[h] = i
+  }
+
+  // Matches may reach back into the previous master block
+  for (let i = Math.max(0, from - WINDOW_SIZE); i < from; i++) {
+    insert(i)
+  }
+
+  const n = to - from
+  const start = new Uint32Array(n + 1)
+  let length: Uint16Array = new Uint16Array(n + 64)
+  let dist: Uint16Array = new Uint16Array(n + 64)
+  let count = 0
+
+  for (let pos = from; pos < to; pos++) {
+    start[pos - from] = count
+    const maxLength = Math.min(MAX_MATCH, to - pos)
+    if (maxLength < MIN_MATCH) continue
+
+    let best = MIN_MATCH - 1
+    let p = head[hash(pos)]
+    for (let chain = 0; p >= 0 && pos - p <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+      if (data[p + best] === data[pos + best]) {
+        let len = 0
+        while (len < maxLength && data[p + len] === data[pos + len]) len++
+        if (len > best) {
+          if (count === length.length) {
+            length = grow(length)
+            dist = grow(dist)
+          }
+          length[count] = len
+          dist[count] = pos - p
+          count++
+          best = len
+          if (len === maxLength) break
+        }
+      }
+      p = prev[p & WINDOW_MASK]
+    }
+    insert(pos)
+  }
+  start[n] = count
+  return { start, length, dist }
+}
+
+function grow(array: Uint16Array): Uint16Array {
+  const result = new Uint16Array(array.length * 2)
+  result.set(array)
+  return result
+}
+
+/** An LZ77 parse: literals have dist 0, matches store their length */
+interface Lz77 {
+  litLen: Uint16Array
+  dist: Uint16Array
+}
+
+/** Bits each symbol costs under some entropy code, extra bits included */
+interface CostModel {
+  literal: Float64Array // by byte value
+  length: Float64Array // by match length
+  dist: Float64Array // by distance code
+}
+
+interface SymbolCounts {
+  litLen: Uint32Array
+  dist: Uint32Array
+}
+
+/**
+ * Parse a block repeatedly, each time with the symbol costs of the previous
+ * parse, keeping whichever encodes smallest
+ */
+function optimize(data: Uint8Array, from: number, to: number, iterations: number): Lz77 {
+  const matches = findMatches(data, from, to)
+  let best = greedyParse(data, from, to, matches)
+  let counts = countSymbols(best)
+  let bestBits = dynamicBits(counts)
+
+  let lastBits = Infinity
+  for (let i = 0; i < iterations; i++) {
+    const lz77 = optimalParse(data, from, to, matches, statisticCosts(counts))
+    counts = countSymbols(lz77)
+    const bits = dynamicBits(counts)
+    if (bits < bestBits) {
+      best = lz77
+      bestBits = bits
+    }
+    if (bits === lastBits) break // converged
+    lastBits = bits
+  }
+  return best
+}
+
+/** Longest match at each position, for the first cost model */
+function greedyParse(data: Uint8Array, from: number, to: number, matches: Matches): Lz77 {
+  const litLen: number[] = []
+  const dist: number[] = []
+  for (let i = 0; i < to - from; ) {
+    const last = matches.start[i + 1] - 1
+    if (last >= matches.start[i]) {
+      litLen.push(matches.length[last])
+      dist.push(matches.dist[last])
+      i += matches.length[last]
+    } else {
+      litLen.push(data[from + i])
+      dist.push(0)
+      i++
+    }
+  }
+  return { litLen: Uint16Array.from(litLen), dist: Uint16Array.from(dist) }
+}
+
+/** Cheapest parse under the cost model, by shortest path over positions */
+function optimalParse(data: Uint8Array, from: number, to: number, matches: Matches, costs: CostModel): Lz77 {
+  const n = to - from
+  const total = new Float64Array(n + 1).fill(Infinity)
+  const stepLength = new Uint16Array(n + 1)
+  const stepDist = new Uint16Array(n + 1)
+  total[0] = 0
+
+  for (let i = 0; i < n; i++) {
+    const base = total[i]
+    const literal = base + costs.literal[data[from + i]]
+    if (literal < total[i + 1]) {
+      total[i + 1] = literal
+      stepLength[i + 1] = 1
+      stepDist[i + 1] = 0
+    }
+
+    let len = MIN_MATCH
+    for (let m = matches.start[i]; m < matches.start[i + 1]; m++) {
+      const dist = matches.dist[m]
+      const distCost = base + costs.dist[distCode(dist)]
+      for (const end = matches.length[m]; len <= end; len++) {
+        const cost = distCost + costs.length[len]
+        if (cost < total[i + len]) {
+          total[i + len] = cost
+          stepLength[i + len] = len
+          stepDist[i + len] = dist
+        }
+      }
+    }
+  }
+
+  let steps = 0
+  for (let i = n; i > 0; i -= stepLength[i]) steps++
+  const litLen = new Uint16Array(steps)
+  const dist = new Uint16Array(steps)
+  for (let i = n; i > 0; i -= stepLength[i]) {
+    steps--
+    litLen[steps] = stepDist[i] ? stepLength[i] : data[from + i - 1]
+    dist[steps] = stepDist[i]
+  }
+  return { litLen, dist }
+}
+
+function countSymbols(lz77: Lz77): SymbolCounts {
+  const litLen = new Uint32Array(NUM_LIT_LEN)
+  const dist = new Uint32Array(NUM_DIST)
+  for (let i = 0; i < lz77.litLen.length; i++) {
+    if (lz77.dist[i]) {
+      litLen[257 + LENGTH_CODE[lz77.litLen[i]]]++
+      dist[distCode(lz77.dist[i])]++
+    } else {
+      litLen[lz77.litLen[i]]++
+    }
+  }
+  litLen[END_OF_BLOCK] = 1
+  return { litLen, dist }
+}
+
+/** Entropy of each symbol; unused symbols cost as much as the rarest possible */
+function entropy(counts: Uint32Array): Float64Array {
+  let sum = 0
+  for (const count of counts) sum += count
+  const log2Sum = sum ? Math.log2(sum) : Math.log2(counts.length)
+  const bits = new Float64Array(counts.length)
+  for (let s = 0; s < counts.length; s++) {
+    bits[s] = counts[s] ? log2Sum - Math.log2(counts[s]) : log2Sum
+  }
+  return bits
+}
+
+function statisticCosts(counts: SymbolCounts): CostModel {
+  return costModel(entropy(counts.litLen), entropy(counts.dist))
+}
+
+function costModel(litLenBits: ArrayLike<number>, distBits: ArrayLike<number>): CostModel {
+  const literal = new Float64Array(256)
+  for (let i = 0; i < 256; i++) literal[i] = litLenBits[i]
+  const length = new Float64Array(MAX_MATCH + 1)
+  for (let len = MIN_MATCH; len <= MAX_MATCH; len++) {
+    const code = LENGTH_CODE[len]
+    length[len] = litLenBits[257 + code] + LENGTH_EXTRA[code]
+  }
+  const dist = new Float64Array(NUM_DIST)
+  for (let code = 0; code < NUM_DIST; code++) dist[code] = distBits[code] + DIST_EXTRA[code]
+  return { literal, length, dist }
+}
+
+/**
+ * Length-limited Huffman code lengths by package-merge. Codes always get at
+ * least two symbols, since some decoders reject a code with only one
+ */
+function codeLengths(counts: ArrayLike<number>, maxBits: number): Uint8Array {
+  interface Node {
+    weight: number
+    symbol: number // -1 for packages
+    left: Node | null
+    right: Node | null
+  }
+
+  const leaves: Node[] = []
+  for (let s = 0; s < counts.length; s++) {
+    if (counts[s] > 0) leaves.push({ weight: counts[s], symbol: s, left: null, right: null })
+  }
+  for (let s = 0; leaves.length < 2; s++) {
+    if (counts[s] === 0) leaves.push({ weight: 0, symbol: s, left: null, right: null })
+  }
+  leaves.sort((a, b) => a.weight - b.weight || a.symbol - b.symbol)
+
+  let list = leaves
+  for (let bits = 1; bits < maxBits; bits++) {
+    const merged: Node[] = []
+    let i = 0
+    let j = 0
+    while (i < leaves.length || j + 1 < list.length) {
+      const pair = j + 1 < list.length ? list[j].weight + list[j + 1].weight : Infinity
+      if (i < leaves.length && leaves[i].weight <= pair) {
+        merged.push(leaves[i++])
+      } else {
+        merged.push({ weight: pair, symbol: -1, left: list[j], right: list[j + 1] })
+        j += 2
+      }
+    }
+    list = merged
+  }
+
+  const lengths = new Uint8Array(counts.length)
+  const visit = (node: Node): void => {
+    if (node.symbol >= 0) {
+      lengths[node.symbol]++
+    } else {
+      visit(node.left!)
+      visit(node.right!)
+    }
+  }
+  for (let i = 0; i < 2 * leaves.length - 2; i++) visit(list[i])
+  return lengths
+}
+
+/** Canonical Huffman codes, bit-reversed for LSB-first output */
+function huffmanCodes(lengths: Uint8Array): Uint16Array {
+  const lengthCounts = new Uint16Array(16)
+  for (const length of lengths) lengthCounts[length]++
+  lengthCounts[0] = 0
+
+  const next = new Uint16Array(16)
+  let code = 0
+  for (let bits = 1; bits < 16; bits++) {
+    code = (code + lengthCounts[bits - 1]) << 1
+    next[bits] = code
+  }
+
+  const codes = new Uint16Array(lengths.length)
+  for (let s = 0; s < lengths.length; s++) {
+    const length = lengths[s]
+    if (!length) continue
+    let value = next[length]++
+    let reversed = 0
+    for (let b = 0; b < length; b++) {
+      reversed = (reversed << 1) | (value & 1)
+      value >>= 1
+    }
+    codes[s] = reversed
+  }
+  return codes
+}
+
+/** Huffman codes of a dynamic block and its run-length coded header */
+interface DynamicCode {
+  litLen: Uint8Array
+  dist: Uint8Array
+  hlit: number
+  hdist: number
+  hclen: number
+  codeLengthLengths: Uint8Array
+  rle: number[] // code length symbols, each followed by its extra bits value
+  headerBits: number
+}
+
+function dynamicCode(counts: SymbolCounts): DynamicCode {
+  const litLen = codeLengths(counts.litLen, 15)
+  const dist = codeLengths(counts.dist, 15)
+
+  let hlit = NUM_LIT_LEN
+  while (hlit > 257 && litLen[hlit - 1] === 0) hlit--
+  let hdist = NUM_DIST
+  while (hdist > 1 && dist[hdist - 1] === 0) hdist--
+
+  // Run-length code the concatenated lengths; runs may span both codes
+  const all = new Uint8Array(hlit + hdist)
+  all.set(litLen.subarray(0, hlit))
+  all.set(dist.subarray(0, hdist), hlit)
+  const rle: number[] = []
+  const codeLengthCounts = new Uint32Array(19)
+  const emit = (symbol: number, extra = 0) => {
+    rle.push(symbol, extra)
+    codeLengthCounts[symbol]++
+  }
+  for (let i = 0; i < all.length; ) {
+    const length = all[i]
+    let run = 1
+    while (i + run < all.length && all[i + run] === length) run++
+    i += run
+
+    if (length === 0) {
+      for (; run >= 11; run -= Math.min(run, 138)) emit(18, Math.min(run, 138) - 11)
+      if (run >= 3) {
+        emit(17, run - 3)
+        run = 0
+      }
+    } else {
+      emit(length)
+      for (run--; run >= 3; run -= Math.min(run, 6)) emit(16, Math.min(run, 6) - 3)
+    }
+    for (; run > 0; run--) emit(length)
+  }
+
+  const codeLengthLengths = codeLengths(codeLengthCounts, 7)
+  let hclen = 19
+  while (hclen > 4 && codeLengthLengths[CODE_LENGTH_ORDER[hclen - 1]] === 0) hclen--
+
+  let headerBits = 5 + 5 + 4 + hclen * 3
+  for (let i = 0; i < rle.length; i += 2) {
+    const symbol = rle[i]
+    headerBits += codeLengthLengths[symbol] + (symbol === 16 ? 2 : symbol === 17 ? 3 : symbol === 18 ? 7 : 0)
+  }
+  return { litLen, dist, hlit, hdist, hclen, codeLengthLengths, rle, headerBits }
+}
+
+/** Bits of the symbols coded with the given lengths, extra bits included */
+function dataBits(counts: SymbolCounts, litLen: Uint8Array, dist: Uint8Array): number {
+  let bits = 0
+  for (let s = 0; s < NUM_LIT_LEN; s++) {
+    bits += counts.litLen[s] * (litLen[s] + (s > END_OF_BLOCK ? LENGTH_EXTRA[s - 257] : 0))
+  }
+  for (let s = 0; s < NUM_DIST; s++) {
+    bits += counts.dist[s] * (dist[s] + DIST_EXTRA[s])
+  }
+  return bits
+}
+
+function dynamicBits(counts: SymbolCounts): number {
+  const code = dynamicCode(counts)
+  return code.headerBits + dataBits(counts, code.litLen, code.dist)
+}
+
+const FIXED_LIT_LEN = new Uint8Array(288).fill(8, 0, 144).fill(9, 144, 256).fill(7, 256, 280).fill(8, 280, 288)
+const FIXED_DIST = new Uint8Array(NUM_DIST).fill(5)
+
+/** Write the block as dynamic Huffman, fixed Huffman or stored, whichever is smallest */
+function writeBlock(writer: BitWriter, data: Uint8Array, from: number, to: number, lz77: Lz77, final: boolean): void {
+  const counts = countSymbols(lz77)
+  const dynamic = dynamicCode(counts)
+  const dynamicSize = dynamic.headerBits + dataBits(counts, dynamic.litLen, dynamic.dist)
+  const fixedSize = dataBits(counts, FIXED_LIT_LEN, FIXED_DIST)
+  const storedSize = Math.ceil((to - from) / MAX_STORED) * (3 + 7 + 32) + (to - from) * 8
+
+  if (storedSize < Math.min(dynamicSize, fixedSize)) {
+    for (let offset = from; offset < to; offset += MAX_STORED) {
+      const end = Math.min(offset + MAX_STORED, to)
+      writer.write(final && end === to ? 1 : 0, 1)
+      writer.write(0, 2)
+      writer.alignToByte()
+      writer.write((end - offset) & 0xff, 8)
+      writer.write((end - offset) >> 8, 8)
+      writer.write(~(end - offset) & 0xff, 8)
+      writer.write((~(end - offset) >> 8) & 0xff, 8)
+      writer.writeBytes(data.subarray(offset, end))
+    }
+    return
+  }
+
+  writer.write(final ? 1 : 0, 1)
+  if (fixedSize <= dynamicSize) {
+    writer.write(1, 2)
+    writeSymbols(writer, lz77, FIXED_LIT_LEN, FIXED_DIST)
+    return
+  }
+
+  writer.write(2, 2)
+  writer.write(dynamic.hlit - 257, 5)
+  writer.write(dynamic.hdist - 1, 5)
+  writer.write(dynamic.hclen - 4, 4)
+  for (let i = 0; i < dynamic.hclen; i++) {
+    writer.write(dynamic.codeLengthLengths[CODE_LENGTH_ORDER[i]], 3)
+  }
+  const codeLengthCodes = huffmanCodes(dynamic.codeLengthLengths)
+  for (let i = 0; i < dynamic.rle.length; i += 2) {
+    const symbol = dynamic.rle[i]
+    writer.write(codeLengthCodes[symbol], dynamic.codeLengthLengths[symbol])
+    if (symbol === 16) writer.write(dynamic.rle[i + 1], 2)
+    else if (symbol === 17) writer.write(dynamic.rle[i + 1], 3)
+    else if (symbol === 18) writer.write(dynamic.rle[i + 1], 7)
+  }
+  writeSymbols(writer, lz77, dynamic.litLen, dynamic.dist)
+}
+
+function writeSymbols(writer: BitWriter, lz77: Lz77, litLenLengths: Uint8Array, distLengths: Uint8Array): void {
+  const litLenCodes = huffmanCodes(litLenLengths)
+  const distCodes = huffmanCodes(distLengths)
+  for (let i = 0; i < lz77.litLen.length; i++) {
+    const value = lz77.litLen[i]
+    const dist = lz77.dist[i]
+    if (!dist) {
+      writer.write(litLenCodes[value], litLenLengths[value])
+      continue
+    }
+    const lengthCode = LENGTH_CODE[value]
+    writer.write(litLenCodes[257 + lengthCode], litLenLengths[257 + lengthCode])
+    writer.write(value - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode])
+    const code = distCode(dist)
+    writer.write(distCodes[code], distLengths[code])
+    writer.write(dist - DIST_BASE[code], DIST_EXTRA[code])
+  }
+  writer.write(litLenCodes[END_OF_BLOCK], litLenLengths[END_OF_BLOCK])
+}
+
+/** LSB-first bit output */
+class BitWriter {
+  private buffer: Uint8Array
+  private length = 0
+  private bits = 0
+  private count = 0
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(capacity)
+  }
+
+  /** Write the low count bits of value, count at most 16 */
+  write(value: number, count: number): void {
+    this.bits |= value << this.count
+    this.count += count
+    while (this.count >= 8) {
+      this.byte(this.bits & 0xff)
+      this.bits >>>= 8
+      this.count -= 8
+    }
+  }
+
+  alignToByte(): void {
+    if (this.count > 0) {
+      this.byte(this.bits & 0xff)
+      this.bits = 0
+      this.count = 0
+    }
+  }
+
+  /** Write whole bytes; the writer must be byte aligned */
+  writeBytes(data: Uint8Array): void {
+    this.reserve(data.byteLength)
+    this.buffer.set(data, this.length)
+    this.length += data.byteLength
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+
+  private byte(value: number): void {
+    this.reserve(1)
+    this.buffer[this.length++] = value
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return
+    const buffer = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size))
+    buffer.set(this.buffer.subarray(0, this.length))
+    this.buffer = buffer
+  }
+}
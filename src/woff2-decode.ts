@@ -1 +1,35 @@
-export { woff2Decode } from './woff2/decode/decode'
+export {
+  woff2Decode,
+  woff2DecodeDetailed,
+  woff2DecodeCollectionFont,
+  woff2DecodeCollectionFonts,
+  type Woff2DecodeResult,
+  type Woff2DecodeOptions,
+} from './woff2/decode/decode'
+export { inspectWoff2, type Woff2Info, type Woff2TableInfo, type Woff2CollectionFontInfo } from './woff2/decode/inspect'
+export { validateWoff2 } from './woff2/decode/validate'
+export { Woff2DecoderStream, type Woff2StreamChunk } from './woff2/decode/stream'
+export { type ValidationReport, type ValidationFinding, type FindingSeverity } from './shared/validation'
+export { type ChecksumMismatch, type ChecksumVerification } from './shared/checksum'
+export { type DecodeLimits } from './shared/limits'
+export {
+  setCompressionBackends,
+  getCompressionBackends,
+  type CompressionBackends,
+  type CompressionBackendName,
+  type CompressionBackendReport,
+  type CompressionCodec,
+  type CompressionOptions,
+  type BrotliCompressOptions,
+} from './shared/compression'
+export {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+  ChecksumError,
+  type WoffErrorCode,
+  type WoffErrorDetails,
+} from './shared/errors'
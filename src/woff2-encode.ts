@@ -1 +1,33 @@
-export { woff2Encode, type Woff2EncodeOptions } from './woff2/encode/encode'
+export {
+  woff2Encode,
+  woff2EncodeAsync,
+  woff2EncodeDetailed,
+  type Woff2EncodeAttempt,
+  type Woff2EncodeOptions,
+  type Woff2EncodeResult,
+  type Woff2EncodeStats,
+  type Woff2HmtxStats,
+  type Woff2TableStats,
+} from './woff2/encode/encode'
+export { type GlyfStreamSizes } from './woff2/encode/transform-glyf'
+export {
+  setCompressionBackends,
+  getCompressionBackends,
+  type CompressionBackends,
+  type CompressionBackendName,
+  type CompressionBackendReport,
+  type CompressionCodec,
+  type CompressionOptions,
+  type BrotliCompressOptions,
+} from './shared/compression'
+export {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+  ChecksumError,
+  type WoffErrorCode,
+  type WoffErrorDetails,
+} from './shared/errors'
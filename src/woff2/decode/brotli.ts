@@ -1,14 +1,29 @@
 // Brotli decompression
-// Tries Node zlib, then browser DecompressionStream, then pure JS
+// Tries a custom backend, then Node zlib, then browser DecompressionStream,
+// then pure JS
 
 import { brotliDecode } from 'brotli-lib/decode'
+import { outputTooLarge, readLimited } from '../../shared/limits'
+import { customBackend, customDecompress, setProbedBackend, type CompressionBackends } from '../../shared/compression'
 
-type DecompressFn = (buf: Uint8Array) => Uint8Array
-type AsyncDecompressFn = (buf: Uint8Array) => Promise<Uint8Array>
+// Output past maxOutputSize bytes fails with a DecompressionError
+type DecompressFn = (buf: Uint8Array, maxOutputSize: number) => Uint8Array
+type AsyncDecompressFn = (buf: Uint8Array, maxOutputSize: number) => Promise<Uint8Array>
+
+// Incremental decompression; the consumer enforces the output size
+type StreamDecompressFn = () => DecompressStream
+
+interface DecompressStream {
+  readable: ReadableStream<Uint8Array>
+  writable: WritableStream<Uint8Array>
+}
 
 // Native zlib Brotli (Node 11.7+)
 let nativeBrotli: DecompressFn | null = null
 
+// Native zlib Brotli stream as a Web Streams pair (Node 17+)
+let nativeBrotliStream: StreamDecompressFn | null = null
+
 // Browser DecompressionStream with Brotli support (Firefox 113+, Safari 16.4+)
 let browserBrotli: AsyncDecompressFn | null = null
 
@@ -17,9 +32,17 @@ function tryLoadNative(): DecompressFn | null {
     if (typeof process !== 'undefined' && process.versions?.node) {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const zlib = require('node:zlib')
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const { kMaxLength } = require('node:buffer')
       if (typeof zlib.brotliDecompressSync === 'function') {
-        return (buf: Uint8Array) => {
-          const result = zlib.brotliDecompressSync(buf)
+        return (buf: Uint8Array, maxOutputSize: number) => {
+          let result
+          try {
+            result = zlib.brotliDecompressSync(buf, { maxOutputLength: Math.max(1, Math.min(maxOutputSize, kMaxLength)) })
+          } catch (err) {
+            if ((err as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') throw outputTooLarge(maxOutputSize, err)
+            throw err
+          }
           return new Uint8Array(result.buffer, result.byteOffset, result.byteLength)
         }
       }
@@ -30,18 +53,35 @@ function tryLoadNative(): DecompressFn | null {
   return null
 }
 
+function tryLoadNativeStream(): StreamDecompressFn | null {
+  try {
+    if (typeof process !== 'undefined' && process.versions?.node) {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const zlib = require('node:zlib')
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const { Duplex } = require('node:stream')
+      if (typeof zlib.createBrotliDecompress === 'function' && typeof Duplex.toWeb === 'function') {
+        return () => Duplex.toWeb(zlib.createBrotliDecompress())
+      }
+    }
+  } catch {
+    // Not in Node or zlib unavailable
+  }
+  return null
+}
+
 function tryLoadBrowserBrotli(): AsyncDecompressFn | null {
   try {
     if (typeof DecompressionStream !== 'undefined') {
       // Throws if 'brotli' format not supported (Chrome currently lacks it)
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       new DecompressionStream('brotli' as any)
-      return async (buf: Uint8Array): Promise<Uint8Array> => {
+      return async (buf: Uint8Array, maxOutputSize: number): Promise<Uint8Array> => {
         const arrayBuf = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer
         const blob = new Blob([arrayBuf])
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const decompressed = blob.stream().pipeThrough(new DecompressionStream('brotli' as any))
-        return new Uint8Array(await new Response(decompressed).arrayBuffer())
+        return readLimited(decompressed, maxOutputSize)
       }
     }
   } catch {
@@ -51,15 +91,68 @@ function tryLoadBrowserBrotli(): AsyncDecompressFn | null {
 }
 
 nativeBrotli = tryLoadNative()
+nativeBrotliStream = tryLoadNativeStream()
 browserBrotli = tryLoadBrowserBrotli()
+setProbedBackend('brotliDecompress', nativeBrotli ? 'node-zlib' : browserBrotli ? 'web-streams' : 'brotli-lib')
 
-// Async decompress: tries native Node, then browser DecompressionStream, then pure JS
-export async function decompress(data: Uint8Array): Promise<Uint8Array> {
+// Async decompress: tries a custom backend, native Node, then browser
+// DecompressionStream, then pure JS
+// Never produces more than maxOutputSize bytes. Native and browser Brotli stop
+// with a DecompressionError once the output would exceed it; brotli-lib only
+// checks the size before and after inflating, so it decodes into a buffer of
+// exactly maxOutputSize instead, cutting off a longer stream and zero-filling
+// a shorter one
+export async function decompress(
+  data: Uint8Array,
+  maxOutputSize = Infinity,
+  backends?: CompressionBackends
+): Promise<Uint8Array> {
+  const custom = customBackend('brotliDecompress', backends)
+  if (custom) {
+    return customDecompress(custom, data, maxOutputSize)
+  }
   if (nativeBrotli) {
-    return nativeBrotli(data)
+    return nativeBrotli(data, maxOutputSize)
   }
   if (browserBrotli) {
-    return browserBrotli(data)
+    return browserBrotli(data, maxOutputSize)
+  }
+  if (maxOutputSize === Infinity) {
+    return brotliDecode(data)
   }
-  return brotliDecode(data)
+  // brotli-lib takes a size of 0 as no size at all
+  return maxOutputSize > 0 ? brotliDecode(data, maxOutputSize) : new Uint8Array(0)
+}
+
+// Streaming decompress: native Node stream, then browser DecompressionStream,
+// then pure JS on the buffered input once it is complete. Custom backends are
+// not incremental, so they also get the buffered input
+export function createDecompressStream(maxOutputSize = Infinity, backends?: CompressionBackends): DecompressStream {
+  const custom = customBackend('brotliDecompress', backends)
+  if (nativeBrotliStream && !custom) {
+    return nativeBrotliStream()
+  }
+  if (browserBrotli && !custom) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return new DecompressionStream('brotli' as any)
+  }
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk) {
+      chunks.push(chunk)
+      size += chunk.byteLength
+    },
+    async flush(controller) {
+      const input = new Uint8Array(size)
+      let offset = 0
+      for (const chunk of chunks) {
+        input.set(chunk, offset)
+        offset += chunk.byteLength
+      }
+      chunks.length = 0
+      controller.enqueue(await decompress(input, maxOutputSize, backends))
+    },
+  })
 }
@@ -0,0 +1,72 @@
+// WOFF2 header and table directory inspection
+// Parses only the header, table directory and collection directory; nothing is decompressed
+
+import { readHeader, type Woff2Header } from './reconstruct'
+import { WOFF2_FLAGS_TRANSFORM, tagToString } from '../../shared/known-tags'
+
+export interface Woff2TableInfo {
+  tag: string
+  transformVersion: number // 0-3, as stored in the flags byte
+  transformed: boolean // glyf/loca version 0 and hmtx version 1 are transformed
+  origLength: number
+  transformLength: number // length in the decompressed stream, equals origLength if not transformed
+}
+
+export interface Woff2CollectionFontInfo {
+  flavor: number
+  tables: number[] // indices into Woff2Info.tables
+}
+
+export interface Woff2Info {
+  flavor: number // 'ttcf' for collections
+  length: number
+  numTables: number
+  totalSfntSize: number
+  totalCompressedSize: number
+  majorVersion: number
+  minorVersion: number
+  metadata: { offset: number; length: number; origLength: number } | null
+  privateData: { offset: number; length: number } | null
+  tables: Woff2TableInfo[]
+  collection: { version: number; fonts: Woff2CollectionFontInfo[] } | null
+}
+
+// Read WOFF2 header fields and table directory without decoding the font
+export function inspectWoff2(data: ArrayBuffer | Uint8Array): Woff2Info {
+  const input = data instanceof Uint8Array ? data : new Uint8Array(data)
+  return headerInfo(readHeader(input))
+}
+
+export function headerInfo(header: Woff2Header): Woff2Info {
+  return {
+    flavor: header.flavor,
+    length: header.length,
+    numTables: header.numTables,
+    totalSfntSize: header.totalSfntSize,
+    totalCompressedSize: header.compressedLength,
+    majorVersion: header.majorVersion,
+    minorVersion: header.minorVersion,
+    metadata: header.metaOffset !== 0 && header.metaLength !== 0
+      ? { offset: header.metaOffset, length: header.metaLength, origLength: header.metaOrigLength }
+      : null,
+    privateData: header.privOffset !== 0 && header.privLength !== 0
+      ? { offset: header.privOffset, length: header.privLength }
+      : null,
+    tables: header.tables.map((table) => ({
+      tag: tagToString(table.tag),
+      transformVersion: table.flags & 0x03,
+      transformed: (table.flags & WOFF2_FLAGS_TRANSFORM) !== 0,
+      origLength: table.origLength,
+      transformLength: table.transformLength,
+    })),
+    collection: header.ttcFonts.length > 0
+      ? {
+          version: header.headerVersion,
+          fonts: header.ttcFonts.map((font) => ({
+            flavor: font.flavor,
+            tables: [...font.tableIndices],
+          })),
+        }
+      : null,
+  }
+}
@@ -0,0 +1,206 @@
+// Streaming WOFF2 decoder
+// Parses the header as soon as it arrives and inflates the font data as it
+// streams in, so the compressed input is never held in full. Tables stored
+// untransformed are emitted as soon as they are inflated; transformed glyf,
+// loca and hmtx follow the end of the stream, once they are reconstructed
+
+import { createDecompressStream } from './brotli'
+import { checkGlyphCounts, checkHeaderLimits, type Woff2DecodeOptions } from './decode'
+import { finishFont, readHeader, type Woff2Header } from './reconstruct'
+import { headerInfo, type Woff2Info } from './inspect'
+import { WOFF2_FLAGS_TRANSFORM, tagToString } from '../../shared/known-tags'
+import { throwOnMismatch, type ChecksumMismatch } from '../../shared/checksum'
+import { DecompressionError, WoffError, WoffFormatError } from '../../shared/errors'
+
+export type Woff2StreamChunk =
+  // Header and table directory, first
+  | { type: 'header'; info: Woff2Info }
+  // One table of the decoded font; a view into the decoder's buffers
+  | { type: 'table'; tag: string; data: Uint8Array }
+  // The complete TTF/OTF, last
+  | { type: 'font'; font: Uint8Array; checksumMismatches: ChecksumMismatch[] | null }
+
+// TransformStream from WOFF2 bytes to decoded tables and the final font
+// Extended metadata and private data are skipped; use woff2DecodeDetailed
+export class Woff2DecoderStream {
+  readonly readable: ReadableStream<Woff2StreamChunk>
+  readonly writable: WritableStream<Uint8Array>
+
+  constructor(options: Woff2DecodeOptions = {}) {
+    const { readable, writable } = decoder(options)
+    this.readable = readable
+    this.writable = writable
+  }
+}
+
+interface Inflater {
+  writer: WritableStreamDefaultWriter<Uint8Array>
+  done: Promise<void> // settles once all inflated data is read
+  closed: boolean
+}
+
+function decoder(options: Woff2DecodeOptions): TransformStream<Uint8Array, Woff2StreamChunk> {
+  let pending = new Uint8Array(0) // input before the header is complete
+  let received = 0
+  let header: Woff2Header | null = null
+  let inflater: Inflater | null = null
+  let decompressed = new Uint8Array(0)
+  let filled = 0
+  let nextTable = 0
+
+  // Emit untransformed tables whose data is complete, in stream order
+  function emitTables(controller: TransformStreamDefaultController<Woff2StreamChunk>): void {
+    const tables = header!.tables
+    for (; nextTable < tables.length; nextTable++) {
+      const table = tables[nextTable]
+      if (table.srcOffset + table.srcLength > filled) break
+      if ((table.flags & WOFF2_FLAGS_TRANSFORM) !== 0) continue
+      controller.enqueue({
+        type: 'table',
+        tag: tagToString(table.tag),
+        data: decompressed.subarray(table.srcOffset, table.srcOffset + table.srcLength),
+      })
+    }
+  }
+
+  // Copy inflated chunks into place as they arrive. On failure the inflater is
+  // cancelled, so pending writes reject instead of waiting on backpressure
+  async function pump(
+    readable: ReadableStream<Uint8Array>,
+    controller: TransformStreamDefaultController<Woff2StreamChunk>
+  ): Promise<void> {
+    const { compressedOffset, uncompressedSize } = header!
+    const reader = readable.getReader()
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        if (value.byteLength > uncompressedSize - filled) {
+          throw new DecompressionError(
+            'DECOMPRESSION_SIZE_MISMATCH',
+            `Brotli decompression failed: output exceeds ${uncompressedSize} bytes`,
+            { offset: compressedOffset }
+          )
+        }
+        decompressed.set(value, filled)
+        filled += value.byteLength
+        emitTables(controller)
+      }
+    } catch (err) {
+      await reader.cancel(err).catch(() => {})
+      if (err instanceof WoffError) throw err
+      throw new DecompressionError('DECOMPRESSION_FAILED', 'Brotli decompression failed', {
+        offset: compressedOffset,
+        cause: err,
+      })
+    }
+  }
+
+  function startInflater(controller: TransformStreamDefaultController<Woff2StreamChunk>): Inflater {
+    const { readable, writable } = createDecompressStream(header!.uncompressedSize, options.compression)
+    decompressed = new Uint8Array(header!.uncompressedSize)
+    const done = pump(readable, controller)
+    done.catch(() => {}) // awaited on the next write or at the end
+    return { writer: writable.getWriter(), done, closed: false }
+  }
+
+  // Hand the compressed part of a chunk starting at input offset start to the
+  // inflater, closing it after the last compressed byte
+  async function inflate(chunk: Uint8Array, start: number): Promise<void> {
+    const { compressedOffset, compressedLength } = header!
+    const compressedEnd = compressedOffset + compressedLength
+    const from = Math.max(compressedOffset - start, 0)
+    const to = Math.min(compressedEnd - start, chunk.byteLength)
+    const current = inflater!
+    try {
+      if (to > from) await current.writer.write(chunk.subarray(from, to))
+      if (!current.closed && start + chunk.byteLength >= compressedEnd) {
+        current.closed = true
+        await current.writer.close()
+      }
+    } catch (err) {
+      await current.done
+      throw err
+    }
+  }
+
+  return new TransformStream<Uint8Array, Woff2StreamChunk>({
+    async transform(chunk, controller) {
+      let start = received
+      received += chunk.byteLength
+
+      if (!header) {
+        const input = new Uint8Array(received)
+        input.set(pending)
+        input.set(chunk, pending.byteLength)
+        header = tryReadHeader(input)
+        if (!header) {
+          pending = input
+          return
+        }
+        pending = new Uint8Array(0)
+        checkHeaderLimits(header, options)
+        inflater = startInflater(controller)
+        controller.enqueue({ type: 'header', info: headerInfo(header) })
+        chunk = input
+        start = 0
+      }
+
+      if (received > header.length) {
+        throw new WoffFormatError(
+          'INVALID_HEADER',
+          `WOFF2 header length ${header.length} does not match input size ${received}`,
+          { offset: 8 }
+        )
+      }
+      await inflate(chunk, start)
+    },
+
+    async flush(controller) {
+      if (!header || received < header.length) {
+        throw new WoffFormatError('TRUNCATED', `WOFF2 ${header ? 'file' : 'header'} truncated`, { offset: received })
+      }
+      await inflater!.done
+
+      if (filled !== header.uncompressedSize) {
+        throw new DecompressionError(
+          'DECOMPRESSION_SIZE_MISMATCH',
+          `Brotli decompression failed: expected ${header.uncompressedSize} bytes, got ${filled}`,
+          { offset: header.compressedOffset }
+        )
+      }
+      checkGlyphCounts(decompressed, header, options)
+
+      const checksumMismatches = options.verifyChecksums ? [] : null
+      const font = finishFont(decompressed, header, options, checksumMismatches)
+      if (checksumMismatches && options.verifyChecksums === 'throw') {
+        throwOnMismatch(checksumMismatches)
+      }
+
+      // Reconstruction records where each table landed in the font
+      for (const table of header.tables) {
+        if ((table.flags & WOFF2_FLAGS_TRANSFORM) === 0) continue
+        controller.enqueue({
+          type: 'table',
+          tag: tagToString(table.tag),
+          data: font.subarray(table.dstOffset, table.dstOffset + table.dstLength),
+        })
+      }
+      controller.enqueue({ type: 'font', font, checksumMismatches })
+    },
+  })
+}
+
+// The header and directories, or null until enough input has arrived
+function tryReadHeader(input: Uint8Array): Woff2Header | null {
+  if (input.byteLength < 4) return null
+  const length = input.byteLength >= 12 ? new DataView(input.buffer).getUint32(8) : Infinity
+  try {
+    return readHeader(input, length)
+  } catch (err) {
+    if (err instanceof WoffFormatError && err.code === 'TRUNCATED' && input.byteLength < length) {
+      return null
+    }
+    throw err
+  }
+}
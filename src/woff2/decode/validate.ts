@@ -0,0 +1,450 @@
+// WOFF2 conformance validator
+// Walks the whole file and reports every violation found instead of stopping at the first
+// https://www.w3.org/TR/WOFF2/
+
+import { decompress } from './brotli'
+import { Buffer } from './buffer'
+import { finishFont, readHeader } from './reconstruct'
+import {
+  KNOWN_TAGS,
+  TAG_GLYF,
+  TAG_LOCA,
+  TAG_HMTX,
+  TAG_HEAD,
+  TTC_FLAVOR,
+  WOFF2_SIGNATURE,
+  tagToString,
+} from '../../shared/known-tags'
+import { readBase128, read255UShort } from '../../shared/variable-length'
+import { pad4 } from '../../shared/checksum'
+import { parseXml } from '../../shared/xml'
+import { DecompressionError } from '../../shared/errors'
+import { FindingList, checkTrailingBlocks, type ValidationReport } from '../../shared/validation'
+
+const WOFF2_HEADER_SIZE = 48
+const SFNT_HEADER_SIZE = 12
+const SFNT_ENTRY_SIZE = 16
+
+// head.flags bit 11: font data has been losslessly transformed
+const HEAD_FLAG_BIT_11 = 1 << 11
+
+interface DirectoryEntry {
+  tag: number
+  entryOffset: number // file offset of the flags byte
+  transformVersion: number
+  transformed: boolean
+  origLength: number
+  transformLength: number
+  srcOffset: number // offset in the decompressed stream
+}
+
+interface Woff2Fields {
+  length: number
+  flavor: number
+  numTables: number
+  totalSfntSize: number
+  totalCompressedSize: number
+  metaOffset: number
+  metaLength: number
+  metaOrigLength: number
+  privOffset: number
+  privLength: number
+  collectionVersion: number // 0 for single fonts
+}
+
+// Validate a WOFF2 file against the spec's MUST requirements
+export async function validateWoff2(data: ArrayBuffer | Uint8Array): Promise<ValidationReport> {
+  const input = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const findings = new FindingList()
+
+  const fields = checkHeader(input, findings)
+  if (!fields) return findings.report()
+
+  const buf = new Buffer(input)
+  buf.seek(WOFF2_HEADER_SIZE)
+  const entries = checkTableDirectory(buf, fields.numTables, findings)
+  if (!entries) return findings.report()
+
+  const fontsTables = fields.flavor === TTC_FLAVOR
+    ? checkCollectionDirectory(buf, fields, entries, findings)
+    : [entries.map((_, i) => i)]
+  if (!fontsTables) return findings.report()
+
+  for (const indices of fontsTables) {
+    checkFontTables(indices, entries, findings)
+  }
+  checkTotalSfntSize(fields, entries, fontsTables, findings)
+
+  const compressedOffset = buf.offset
+  const compressedEnd = compressedOffset + fields.totalCompressedSize
+  if (compressedEnd > input.byteLength) {
+    findings.error(
+      'BLOCK_OUT_OF_BOUNDS',
+      `Compressed data (${fields.totalCompressedSize} bytes at ${compressedOffset}) extends past end of file`,
+      20
+    )
+    return findings.report()
+  }
+
+  checkTrailingBlocks(input, compressedEnd, [
+    { name: 'metadata', offset: fields.metaOffset, length: fields.metaLength, field: 28 },
+    { name: 'private data', offset: fields.privOffset, length: fields.privLength, field: 40 },
+  ], findings)
+  const decompressed = await checkCompressedData(input, compressedOffset, fields, entries, findings)
+  await checkMetadata(input, fields, findings)
+
+  // Everything at the container level is sound; make sure the fonts
+  // reconstruct from the already inflated font data
+  if (decompressed && !findings.hasErrors()) {
+    try {
+      finishFont(decompressed, readHeader(input), {}, null)
+    } catch (err) {
+      findings.error('DECODE_FAILED', `Font reconstruction failed: ${(err as Error).message}`, compressedOffset)
+    }
+  }
+
+  return findings.report()
+}
+
+function checkHeader(input: Uint8Array, findings: FindingList): Woff2Fields | null {
+  if (input.byteLength < WOFF2_HEADER_SIZE) {
+    findings.error('TRUNCATED', `File is ${input.byteLength} bytes, shorter than the 48-byte header`, 0)
+    return null
+  }
+
+  const view = new DataView(input.buffer, input.byteOffset, input.byteLength)
+  if (view.getUint32(0) !== WOFF2_SIGNATURE) {
+    findings.error('BAD_SIGNATURE', 'Signature is not wOF2', 0)
+    return null
+  }
+
+  const fields: Woff2Fields = {
+    flavor: view.getUint32(4),
+    length: view.getUint32(8),
+    numTables: view.getUint16(12),
+    totalSfntSize: view.getUint32(16),
+    totalCompressedSize: view.getUint32(20),
+    metaOffset: view.getUint32(28),
+    metaLength: view.getUint32(32),
+    metaOrigLength: view.getUint32(36),
+    privOffset: view.getUint32(40),
+    privLength: view.getUint32(44),
+    collectionVersion: 0,
+  }
+
+  if (fields.length !== input.byteLength) {
+    findings.error('LENGTH_MISMATCH', `Header length ${fields.length} does not match file size ${input.byteLength}`, 8)
+  }
+  if (view.getUint16(14) !== 0) {
+    findings.error('RESERVED_NONZERO', 'Reserved header field is not zero', 14)
+  }
+  if (fields.numTables === 0) {
+    findings.error('NO_TABLES', 'numTables is zero', 12)
+    return null
+  }
+  if ((fields.metaOffset === 0) !== (fields.metaLength === 0) ||
+      (fields.metaOffset === 0 && fields.metaOrigLength !== 0)) {
+    findings.error('INVALID_BLOCK_FIELDS', 'metaOffset, metaLength and metaOrigLength must all be zero when there is no metadata', 28)
+  }
+  if ((fields.privOffset === 0) !== (fields.privLength === 0)) {
+    findings.error('INVALID_BLOCK_FIELDS', 'privOffset and privLength must both be zero when there is no private data', 40)
+  }
+
+  return fields
+}
+
+function checkTableDirectory(buf: Buffer, numTables: number, findings: FindingList): DirectoryEntry[] | null {
+  const entries: DirectoryEntry[] = []
+  let srcOffset = 0
+
+  for (let i = 0; i < numTables; i++) {
+    const entryOffset = buf.offset
+    const flagByte = buf.readU8()
+    if (flagByte === null) {
+      findings.error('TRUNCATED', `Table directory truncated at entry ${i}`, entryOffset)
+      return null
+    }
+
+    let tag: number
+    if ((flagByte & 0x3f) === 0x3f) {
+      const arbitrary = buf.readU32()
+      if (arbitrary === null) {
+        findings.error('TRUNCATED', `Table directory truncated at entry ${i}`, entryOffset)
+        return null
+      }
+      tag = arbitrary
+    } else {
+      tag = KNOWN_TAGS[flagByte & 0x3f]
+    }
+    const tagName = tagToString(tag)
+
+    // The null transform is version 3 for glyf/loca and version 0 for everything else
+    const transformVersion = (flagByte >> 6) & 0x03
+    const isGlyfLoca = tag === TAG_GLYF || tag === TAG_LOCA
+    const transformed = isGlyfLoca ? transformVersion !== 3 : transformVersion !== 0
+    if ((isGlyfLoca && (transformVersion === 1 || transformVersion === 2)) ||
+        (tag === TAG_HMTX && transformVersion > 1) ||
+        (!isGlyfLoca && tag !== TAG_HMTX && transformVersion !== 0)) {
+      findings.error('INVALID_TRANSFORM_VERSION', `Reserved transform version ${transformVersion}`, entryOffset, tagName)
+    }
+
+    const lengthOffset = buf.offset
+    const origLength = readBase128(buf)
+    if (origLength === null) {
+      findings.error('INVALID_BASE128', 'origLength is not a valid UIntBase128', lengthOffset, tagName)
+      return null
+    }
+
+    let transformLength = origLength
+    if (transformed) {
+      const transformOffset = buf.offset
+      const value = readBase128(buf)
+      if (value === null) {
+        findings.error('INVALID_BASE128', 'transformLength is not a valid UIntBase128', transformOffset, tagName)
+        return null
+      }
+      transformLength = value
+      if (tag === TAG_LOCA && transformLength !== 0) {
+        findings.error('LOCA_TRANSFORM_LENGTH', `Transformed loca has transformLength ${transformLength}, must be 0`, transformOffset, tagName)
+      }
+    }
+
+    entries.push({ tag, entryOffset, transformVersion, transformed, origLength, transformLength, srcOffset })
+    srcOffset += transformLength
+  }
+
+  return entries
+}
+
+// Returns the table indices of each font in the collection
+function checkCollectionDirectory(
+  buf: Buffer,
+  fields: Woff2Fields,
+  entries: DirectoryEntry[],
+  findings: FindingList
+): number[][] | null {
+  const start = buf.offset
+  const version = buf.readU32()
+  if (version === null) {
+    findings.error('TRUNCATED', 'Collection directory truncated', start)
+    return null
+  }
+  fields.collectionVersion = version
+  if (version !== 0x00010000 && version !== 0x00020000) {
+    findings.error('BAD_COLLECTION_VERSION', `Collection version 0x${version.toString(16)} is not 1.0 or 2.0`, start)
+  }
+
+  const numFontsOffset = buf.offset
+  const numFonts = read255UShort(buf)
+  if (numFonts === null) {
+    findings.error('TRUNCATED', 'Collection directory truncated', numFontsOffset)
+    return null
+  }
+  if (numFonts === 0) {
+    findings.error('NO_FONTS', 'Collection has no fonts', numFontsOffset)
+  }
+
+  const referenced = new Set<number>()
+  const fonts: number[][] = []
+  for (let i = 0; i < numFonts; i++) {
+    const fontOffset = buf.offset
+    const numTables = read255UShort(buf)
+    if (numTables === null || buf.readU32() === null) {
+      findings.error('TRUNCATED', `Collection directory truncated at font ${i}`, fontOffset)
+      return null
+    }
+    if (numTables === 0) {
+      findings.error('NO_TABLES', `Collection font ${i} has no tables`, fontOffset)
+    }
+
+    const indices: number[] = []
+    for (let j = 0; j < numTables; j++) {
+      const indexOffset = buf.offset
+      const index = read255UShort(buf)
+      if (index === null) {
+        findings.error('TRUNCATED', `Collection directory truncated at font ${i}`, indexOffset)
+        return null
+      }
+      if (index >= entries.length) {
+        findings.error('BAD_TABLE_INDEX', `Collection font ${i} references table ${index}, only ${entries.length} tables`, indexOffset)
+        continue
+      }
+      indices.push(index)
+      referenced.add(index)
+    }
+    fonts.push(indices)
+  }
+
+  entries.forEach((entry, i) => {
+    if (!referenced.has(i)) {
+      findings.warning('UNREFERENCED_TABLE', 'Table is not used by any font in the collection', entry.entryOffset, tagToString(entry.tag))
+    }
+  })
+
+  return fonts
+}
+
+// Per-font rules: unique tags, glyf/loca pairing and the hmtx transform dependency
+function checkFontTables(indices: number[], entries: DirectoryEntry[], findings: FindingList): void {
+  const byTag = new Map<number, number>()
+  for (const index of indices) {
+    const entry = entries[index]
+    if (byTag.has(entry.tag)) {
+      findings.error('DUPLICATE_TAG', 'Table appears more than once', entry.entryOffset, tagToString(entry.tag))
+    } else {
+      byTag.set(entry.tag, index)
+    }
+  }
+
+  const glyfIndex = byTag.get(TAG_GLYF)
+  const locaIndex = byTag.get(TAG_LOCA)
+  const glyf = glyfIndex !== undefined ? entries[glyfIndex] : undefined
+  const loca = locaIndex !== undefined ? entries[locaIndex] : undefined
+
+  if (glyf && !loca) {
+    findings.error('GLYF_LOCA_MISMATCH', 'glyf is present without loca', glyf.entryOffset, 'glyf')
+  } else if (loca && !glyf) {
+    findings.error('GLYF_LOCA_MISMATCH', 'loca is present without glyf', loca.entryOffset, 'loca')
+  } else if (glyf && loca) {
+    if (glyf.transformVersion !== loca.transformVersion) {
+      findings.error(
+        'GLYF_LOCA_MISMATCH',
+        `glyf and loca use different transforms (${glyf.transformVersion} and ${loca.transformVersion})`,
+        loca.entryOffset,
+        'loca'
+      )
+    }
+    if (glyf.transformed && locaIndex !== glyfIndex! + 1) {
+      findings.error('LOCA_NOT_AFTER_GLYF', 'Transformed loca must immediately follow glyf in the table directory', loca.entryOffset, 'loca')
+    }
+  }
+
+  const hmtxIndex = byTag.get(TAG_HMTX)
+  if (hmtxIndex !== undefined && entries[hmtxIndex].transformed && !glyf?.transformed) {
+    findings.error(
+      'HMTX_TRANSFORM_WITHOUT_GLYF',
+      'hmtx is transformed but glyf is not, so left side bearings cannot be reconstructed',
+      entries[hmtxIndex].entryOffset,
+      'hmtx'
+    )
+  }
+}
+
+// totalSfntSize is informative only, so a mismatch is a warning
+function checkTotalSfntSize(
+  fields: Woff2Fields,
+  entries: DirectoryEntry[],
+  fontsTables: number[][],
+  findings: FindingList
+): void {
+  let expected = 0
+  if (fields.flavor === TTC_FLAVOR) {
+    expected = 12 + 4 * fontsTables.length
+    if (fields.collectionVersion === 0x00020000) {
+      expected += 12 // DSIG fields
+    }
+    for (const indices of fontsTables) {
+      expected += SFNT_HEADER_SIZE + SFNT_ENTRY_SIZE * indices.length
+    }
+  } else {
+    expected = SFNT_HEADER_SIZE + SFNT_ENTRY_SIZE * entries.length
+  }
+  for (const entry of entries) {
+    expected += pad4(entry.origLength)
+  }
+
+  if (fields.totalSfntSize !== expected) {
+    findings.warning(
+      'TOTAL_SFNT_SIZE_MISMATCH',
+      `totalSfntSize ${fields.totalSfntSize} does not match the ${expected} bytes implied by the table directory`,
+      16
+    )
+  }
+}
+
+async function checkCompressedData(
+  input: Uint8Array,
+  compressedOffset: number,
+  fields: Woff2Fields,
+  entries: DirectoryEntry[],
+  findings: FindingList
+): Promise<Uint8Array | null> {
+  const last = entries[entries.length - 1]
+  const expectedSize = last.srcOffset + last.transformLength
+
+  // Inflate no further than the table directory allows, so a Brotli bomb
+  // can't exhaust memory. Native Brotli reports a stream that runs on;
+  // brotli-lib cuts it off at that size without telling, so there it isn't
+  // reported
+  let decompressed: Uint8Array
+  try {
+    decompressed = await decompress(
+      input.subarray(compressedOffset, compressedOffset + fields.totalCompressedSize),
+      expectedSize
+    )
+  } catch (err) {
+    if (isOverrun(err)) {
+      findings.error(
+        'DECOMPRESSION_SIZE_MISMATCH',
+        `Brotli stream inflates past the ${expectedSize} bytes the table directory requires`,
+        compressedOffset
+      )
+    } else {
+      findings.error('DECOMPRESSION_FAILED', `Brotli stream is invalid: ${(err as Error).message}`, compressedOffset)
+    }
+    return null
+  }
+
+  if (decompressed.byteLength !== expectedSize) {
+    findings.error(
+      'DECOMPRESSION_SIZE_MISMATCH',
+      `Decompressed ${decompressed.byteLength} bytes, table directory requires ${expectedSize}`,
+      compressedOffset
+    )
+    return null
+  }
+
+  const head = entries.find((e) => e.tag === TAG_HEAD)
+  if (head && !head.transformed && head.origLength >= 18) {
+    const flags = (decompressed[head.srcOffset + 16] << 8) | decompressed[head.srcOffset + 17]
+    if ((flags & HEAD_FLAG_BIT_11) === 0) {
+      findings.warning('HEAD_FLAG_BIT_11', 'head.flags bit 11 is not set', head.entryOffset, 'head')
+    }
+  }
+  return decompressed
+}
+
+async function checkMetadata(input: Uint8Array, fields: Woff2Fields, findings: FindingList): Promise<void> {
+  const { metaOffset, metaLength, metaOrigLength } = fields
+  if (metaOffset === 0 || metaLength === 0 || metaOffset + metaLength > input.byteLength) {
+    return
+  }
+
+  let xml: Uint8Array
+  try {
+    xml = await decompress(input.subarray(metaOffset, metaOffset + metaLength), metaOrigLength)
+  } catch (err) {
+    if (isOverrun(err)) {
+      findings.error('METADATA_SIZE_MISMATCH', `Metadata inflates past metaOrigLength ${metaOrigLength}`, metaOffset)
+      return
+    }
+    findings.error('METADATA_DECOMPRESSION_FAILED', `Metadata is not a valid Brotli stream: ${(err as Error).message}`, metaOffset)
+    return
+  }
+
+  if (xml.byteLength !== metaOrigLength) {
+    findings.error('METADATA_SIZE_MISMATCH', `Metadata decompressed to ${xml.byteLength} bytes, metaOrigLength is ${metaOrigLength}`, metaOffset)
+    return
+  }
+
+  try {
+    parseXml(new TextDecoder('utf-8', { fatal: true }).decode(xml))
+  } catch (err) {
+    findings.error('INVALID_METADATA', `Metadata is not well-formed UTF-8 XML: ${(err as Error).message}`, metaOffset)
+  }
+}
+
+// Decompression stopped at its maximum output size
+function isOverrun(err: unknown): boolean {
+  return err instanceof DecompressionError && err.code === 'DECOMPRESSION_SIZE_MISMATCH'
+}
@@ -0,0 +1,162 @@
+// Brotli compression
+// Both entry points try a custom backend first. Async compress then tries
+// Node zlib, then pure JS; browsers have no Brotli CompressionStream, so they
+// always use brotli-lib
+
+import { brotliEncode, EncoderMode, type BrotliEncodeOptions } from 'brotli-lib/encode'
+import {
+  checkBackendResult,
+  customBackend,
+  setProbedBackend,
+  type BrotliCompressOptions,
+  type CompressionBackends,
+} from '../../shared/compression'
+import { WoffError } from '../../shared/errors'
+
+// brotli-lib options plus lgblock, which only native Brotli and custom
+// backends take; brotli-lib picks its own block size
+export interface BrotliOptions extends BrotliEncodeOptions {
+  lgblock?: number
+}
+
+type AsyncCompressFn = (buf: Uint8Array, options: BrotliOptions) => Promise<Uint8Array>
+
+// brotli-lib defaults, used for the native encoder too
+const DEFAULT_QUALITY = 11
+const DEFAULT_LGWIN = 22
+
+// Largest window, log2; the last 16 bytes of a window can't hold input
+const MAX_LGWIN = 24
+const WINDOW_GAP = 16
+
+// Native zlib Brotli (Node 11.7+), run on the libuv threadpool
+let nativeBrotli: AsyncCompressFn | null = null
+
+function tryLoadNative(): AsyncCompressFn | null {
+  try {
+    if (typeof process !== 'undefined' && process.versions?.node) {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const zlib = require('node:zlib')
+      if (typeof zlib.brotliCompress === 'function') {
+        const { constants } = zlib
+        const modes: Record<EncoderMode, number> = {
+          [EncoderMode.GENERIC]: constants.BROTLI_MODE_GENERIC,
+          [EncoderMode.TEXT]: constants.BROTLI_MODE_TEXT,
+          [EncoderMode.FONT]: constants.BROTLI_MODE_FONT,
+        }
+        return (buf: Uint8Array, options: BrotliOptions) => {
+          const params: Record<number, number> = {
+            [constants.BROTLI_PARAM_MODE]: modes[options.mode ?? EncoderMode.GENERIC],
+            [constants.BROTLI_PARAM_QUALITY]: options.quality ?? DEFAULT_QUALITY,
+            [constants.BROTLI_PARAM_LGWIN]: options.lgwin ?? DEFAULT_LGWIN,
+            [constants.BROTLI_PARAM_SIZE_HINT]: options.sizeHint ?? buf.byteLength,
+          }
+          if (options.lgblock !== undefined) {
+            params[constants.BROTLI_PARAM_LGBLOCK] = options.lgblock
+          }
+          return new Promise((resolve, reject) => {
+            zlib.brotliCompress(buf, { params }, (err: Error | null, result: Uint8Array) => {
+              if (err) {
+                reject(err)
+              } else {
+                resolve(new Uint8Array(result.buffer, result.byteOffset, result.byteLength))
+              }
+            })
+          })
+        }
+      }
+    }
+  } catch {
+    // Not in Node or zlib unavailable
+  }
+  return null
+}
+
+nativeBrotli = tryLoadNative()
+setProbedBackend('brotliCompress', nativeBrotli ? 'node-zlib' : 'brotli-lib')
+setProbedBackend('brotliCompressSync', 'brotli-lib')
+
+export const MODE_NAMES: Record<EncoderMode, BrotliCompressOptions['mode']> = {
+  [EncoderMode.GENERIC]: 'generic',
+  [EncoderMode.TEXT]: 'text',
+  [EncoderMode.FONT]: 'font',
+}
+
+export const ENCODER_MODES: Record<BrotliCompressOptions['mode'], EncoderMode> = {
+  generic: EncoderMode.GENERIC,
+  text: EncoderMode.TEXT,
+  font: EncoderMode.FONT,
+}
+
+// Options with defaults filled in, as passed to custom backends
+function backendOptions(data: Uint8Array, options: BrotliOptions): BrotliCompressOptions {
+  const result: BrotliCompressOptions = {
+    quality: options.quality ?? DEFAULT_QUALITY,
+    mode: MODE_NAMES[options.mode ?? EncoderMode.GENERIC],
+    lgwin: options.lgwin ?? DEFAULT_LGWIN,
+    sizeHint: options.sizeHint ?? data.byteLength,
+  }
+  if (options.lgblock !== undefined) {
+    result.lgblock = options.lgblock
+  }
+  return result
+}
+
+// Window compress (or compressSync when sync) uses for input of this length.
+// brotli-lib writes corrupt streams once its input outgrows the window, so on
+// that path the window is widened to hold the input where it can be
+export function effectiveWindow(
+  length: number,
+  lgwin: number | undefined,
+  sync: boolean,
+  backends?: CompressionBackends
+): number {
+  let result = lgwin ?? DEFAULT_LGWIN
+  if (customBackend('brotliCompress', backends) || (!sync && nativeBrotli)) {
+    return result
+  }
+  while (result < MAX_LGWIN && (1 << result) - WINDOW_GAP < length) {
+    result++
+  }
+  return result
+}
+
+// brotli-lib options, which have no lgblock
+function libOptions(data: Uint8Array, { lgblock: _lgblock, ...options }: BrotliOptions): BrotliEncodeOptions {
+  return { ...options, lgwin: effectiveWindow(data.byteLength, options.lgwin, true) }
+}
+
+// Async compress: custom backend, native Node zlib off the main thread, then pure JS
+export async function compress(
+  data: Uint8Array,
+  options: BrotliOptions,
+  backends?: CompressionBackends
+): Promise<Uint8Array> {
+  const custom = customBackend('brotliCompress', backends)
+  if (custom) {
+    return checkBackendResult(await custom(data, backendOptions(data, options)))
+  }
+  if (nativeBrotli) {
+    return nativeBrotli(data, options)
+  }
+  return brotliEncode(data, libOptions(data, options))
+}
+
+// Sync compress: custom backend, then pure JS. A custom backend must return
+// its result directly rather than a promise
+export function compressSync(
+  data: Uint8Array,
+  options: BrotliOptions,
+  backends?: CompressionBackends
+): Uint8Array {
+  const custom = customBackend('brotliCompress', backends)
+  if (!custom) {
+    return brotliEncode(data, libOptions(data, options))
+  }
+  const result = custom(data, backendOptions(data, options))
+  if (result instanceof Promise) {
+    result.catch(() => {})
+    throw new WoffError('INVALID_OPTION', 'Async brotliCompress backend requires woff2EncodeAsync')
+  }
+  return checkBackendResult(result)
+}
@@ -1,29 +1,98 @@
 // WOFF2 encoder
 // https://www.w3.org/TR/WOFF2/
 
-import { brotliEncode, EncoderMode } from 'brotli-lib/encode'
+import { EncoderMode } from 'brotli-lib/encode'
+import { compress, compressSync, effectiveWindow, ENCODER_MODES, MODE_NAMES } from './brotli'
 import { WriteBuffer } from './write-buffer'
+import { finishFont, readHeader } from '../decode/reconstruct'
 import {
   parseSfnt,
+  parseSfntCollection,
+  isCollection,
   isCff,
   getGlyphInfo,
   getNumHMetrics,
+  getTableData,
+  type SfntCollection,
+  type SfntFont,
+  type GlyphInfo,
 } from './sfnt'
-import { transformGlyf } from './transform-glyf'
-import { transformHmtx } from './transform-hmtx'
+import { transformGlyf, type GlyfStreamSizes } from './transform-glyf'
+import { transformHmtx, type HmtxKeptReason } from './transform-hmtx'
 import {
   TAG_GLYF,
   TAG_LOCA,
   TAG_HEAD,
   TAG_HMTX,
   TAG_DSIG,
+  TTC_FLAVOR,
   WOFF2_SIGNATURE,
   getKnownTagIndex,
+  tagToString,
 } from '../../shared/known-tags'
-import { sizeBase128 } from '../../shared/variable-length'
+import { sizeBase128, size255UShort } from '../../shared/variable-length'
+import { computeChecksum, pad4 } from '../../shared/checksum'
+import { serializeMetadata, type WoffMetadata } from '../../shared/metadata'
+import { WoffError } from '../../shared/errors'
+import type { BrotliCompressOptions, CompressionOptions } from '../../shared/compression'
 
-export interface Woff2EncodeOptions {
+export interface Woff2EncodeOptions extends CompressionOptions {
   quality?: number // 0-11, default 11
+  lgwin?: number // Brotli window size, log2, 10-24, default 22; brotli-lib raises even an explicit value to fit the font data
+  lgblock?: number // Brotli input block size, log2, 16-24; native Brotli and custom backends only
+  mode?: BrotliCompressOptions['mode'] // Brotli mode for the font data, default 'font'
+  sizeHint?: number // expected input size for Brotli's parameter choices, default the font data length
+  metadata?: string | WoffMetadata // extended metadata (XML or object model), Brotli-compressed into the file
+  privateData?: Uint8Array // opaque private data block, stored as-is
+  majorVersion?: number // font version stored in the header, default 1
+  minorVersion?: number // default 0
+  transformGlyf?: boolean // glyf/loca transform, default true; false stores them as-is (null transform, version 3)
+  transformHmtx?: boolean // hmtx transform when glyf is transformed and it saves space, default true
+  optimize?: 'size' // try each transform choice left unset with several Brotli settings, keep the smallest output
+  stats?: boolean // woff2EncodeDetailed reports table sizes, at the cost of compressing each table again
+}
+
+// One encoding tried by woff2EncodeDetailed
+export interface Woff2EncodeAttempt {
+  transformGlyf: boolean // glyf/loca transformed
+  transformHmtx: boolean // hmtx transformed
+  mode: BrotliCompressOptions['mode']
+  lgwin: number
+  length?: number // output size in bytes, absent if the font couldn't be encoded this way
+  error?: string // why the font couldn't be encoded this way
+  chosen: boolean
+}
+
+export interface Woff2EncodeResult {
+  woff2: Uint8Array
+  attempts: Woff2EncodeAttempt[] // a single attempt unless optimize is set
+  stats?: Woff2EncodeStats // with the stats option
+}
+
+export interface Woff2EncodeStats {
+  tables: Woff2TableStats[] // in table directory order
+  compressedLength: number // Brotli-compressed font data, totalCompressedSize in the header
+}
+
+export interface Woff2TableStats {
+  tag: string
+  origLength: number
+  transformLength: number // bytes going into Brotli; 0 for transformed loca
+  transformVersion: number
+  compressedLength: number // estimated bytes of the compressed font data
+  compressedShare: number // estimated fraction of the compressed font data
+  glyfStreams?: GlyfStreamSizes // transformed glyf only
+  hmtx?: Woff2HmtxStats // hmtx only
+}
+
+export interface Woff2HmtxStats {
+  transformed: boolean
+  proportionalLsbRemoved: boolean // LSBs of glyphs with their own advance width, all equal to xMin
+  monospaceLsbRemoved: boolean // LSBs of the glyphs past numberOfHMetrics, all equal to xMin
+  // Why hmtx was left untransformed: transformHmtx is false, glyf isn't
+  // transformed (or not shared by every font using this hmtx), some LSB of
+  // each kind differs from xMin, or dropping LSBs saves nothing
+  reason?: 'disabled' | 'glyf-untransformed' | HmtxKeptReason
 }
 
 // SFNT constants
@@ -39,113 +108,324 @@ interface TableInfo {
   transformLength: number
   transformVersion: number
   data: Uint8Array
+  glyfStreams?: GlyfStreamSizes
+  hmtx?: Woff2HmtxStats
 }
 
-// Encode TTF/OTF to WOFF2 format
+// Source table, deduplicated across collection fonts
+interface SourceTable {
+  tag: number
+  font: SfntFont // first font referencing this table
+  data: Uint8Array
+  fontIndices: number[]
+  partner: number // index of the paired glyf/loca table, -1 if none
+}
+
+// Font tables transformed and concatenated, ready for compression
+interface PreparedFont {
+  collection: SfntCollection | null
+  fonts: SfntFont[]
+  fontTables: Map<number, number>[]
+  tableInfos: TableInfo[]
+  tableDataStream: Uint8Array
+  metadataBytes: Uint8Array | null // extended metadata XML as UTF-8
+}
+
+// Encode TTF/OTF (or TTC collection) to WOFF2 format
 export function woff2Encode(
   data: ArrayBuffer | Uint8Array,
   options?: Woff2EncodeOptions
 ): Uint8Array {
-  const input = data instanceof Uint8Array ? data : new Uint8Array(data)
+  return encodeDetailed(data, options, false).woff2
+}
+
+// Same as woff2Encode, also reporting the encodings tried and, with the
+// stats option, the size of each table
+export function woff2EncodeDetailed(
+  data: ArrayBuffer | Uint8Array,
+  options?: Woff2EncodeOptions
+): Woff2EncodeResult {
+  return encodeDetailed(data, options, options?.stats === true)
+}
+
+function encodeDetailed(
+  data: ArrayBuffer | Uint8Array,
+  options: Woff2EncodeOptions | undefined,
+  withStats: boolean
+): Woff2EncodeResult {
   const quality = options?.quality ?? 11
+  const attempts: Woff2EncodeAttempt[] = []
+  let metadata: Uint8Array | null | undefined
+  let best: Encoded | null = null
 
-  // Parse SFNT
-  const font = parseSfnt(input)
-  const hasCff = isCff(font)
+  for (const candidate of candidates(data, options, true, attempts)) {
+    const { font, settings } = candidate
+    if (metadata === undefined) {
+      metadata = font.metadataBytes && compressSync(font.metadataBytes, {
+        quality,
+        mode: EncoderMode.TEXT,
+      }, options?.compression)
+    }
+    const compressed = compressSync(font.tableDataStream, {
+      quality,
+      mode: settings.mode,
+      lgwin: settings.lgwin,
+      lgblock: options?.lgblock,
+      sizeHint: options?.sizeHint,
+    }, options?.compression)
+    best = keepSmaller(best, candidate, compressed, writeWoff2(font, compressed, metadata, options))
+  }
 
-  // Build table list sorted by tag, excluding DSIG (must be removed per spec)
-  const sortedTags = [...font.tables.keys()]
-    .filter(tag => tag !== TAG_DSIG)
-    .sort((a, b) => a - b)
+  best!.candidate.attempt.chosen = true
+  const result: Woff2EncodeResult = { woff2: best!.woff2, attempts }
+  if (withStats) {
+    result.stats = encodeStats(best!.candidate, best!.compressedLength, options)
+  }
+  return result
+}
 
-  // Process tables
-  const tableInfos: TableInfo[] = []
-  let transformedGlyfData: Uint8Array | null = null
-  let glyfOrigLength = 0
-  let transformedHmtxData: Uint8Array | null = null
-  let hmtxOrigLength = 0
+// Same as woff2Encode, but compresses with native Brotli from node:zlib off
+// the main thread when running on Node, falling back to brotli-lib elsewhere
+export async function woff2EncodeAsync(
+  data: ArrayBuffer | Uint8Array,
+  options?: Woff2EncodeOptions
+): Promise<Uint8Array> {
+  const quality = options?.quality ?? 11
+  let metadata: Uint8Array | null | undefined
+  let best: Encoded | null = null
 
-  // Transform glyf/loca for TrueType fonts
-  if (!hasCff && font.tables.has(TAG_GLYF) && font.tables.has(TAG_LOCA)) {
-    const glyphInfo = getGlyphInfo(font)
-    const transformed = transformGlyf(font, glyphInfo)
-    transformedGlyfData = transformed.data
-    glyfOrigLength = transformed.origLength
-
-    // Transform hmtx if glyf is present (LSB optimization)
-    if (font.tables.has(TAG_HMTX)) {
-      const hmtxEntry = font.tables.get(TAG_HMTX)!
-      const numHMetrics = getNumHMetrics(font)
-      const hmtxData = input.subarray(hmtxEntry.offset, hmtxEntry.offset + hmtxEntry.length)
-      const transformed = transformHmtx(font, hmtxData, numHMetrics, glyphInfo)
-      if (transformed) {
-        transformedHmtxData = transformed.data
-        hmtxOrigLength = hmtxEntry.length
+  for (const candidate of candidates(data, options, false, [])) {
+    const { font, settings } = candidate
+    if (metadata === undefined) {
+      metadata = font.metadataBytes &&
+        await compress(font.metadataBytes, { quality, mode: EncoderMode.TEXT }, options?.compression)
+    }
+    const compressed = await compress(font.tableDataStream, {
+      quality,
+      mode: settings.mode,
+      lgwin: settings.lgwin,
+      lgblock: options?.lgblock,
+      sizeHint: options?.sizeHint,
+    }, options?.compression)
+    best = keepSmaller(best, candidate, compressed, writeWoff2(font, compressed, metadata, options))
+  }
+
+  return best!.woff2
+}
+
+// Transform choices and Brotli parameters for one encoding
+interface EncodeSettings {
+  transformGlyf: boolean
+  transformHmtx: boolean
+  mode: EncoderMode
+  lgwin: number
+}
+
+interface Candidate {
+  font: PreparedFont
+  settings: EncodeSettings
+  attempt: Woff2EncodeAttempt
+}
+
+// Smallest encoding so far
+interface Encoded {
+  candidate: Candidate
+  woff2: Uint8Array
+  compressedLength: number
+}
+
+// Brotli window and block size limits, log2; 22 is the brotli-lib default
+const DEFAULT_LGWIN = 22
+const MIN_LGWIN = 10
+const MAX_LGWIN = 24
+const MIN_LGBLOCK = 16
+const MAX_LGBLOCK = 24
+
+// Encodings to try, added to attempts as they come: just the requested one,
+// or with optimize every transform choice, Brotli mode and window the caller
+// left unset. Each transform choice is prepared only once reached, so fonts
+// of losing candidates can be freed. Transform choices that give the same
+// tables and windows the Brotli backend widens to the same size are tried
+// once, and transform choices that fail on this font are reported rather
+// than thrown while another works
+function* candidates(
+  data: ArrayBuffer | Uint8Array,
+  options: Woff2EncodeOptions | undefined,
+  sync: boolean,
+  attempts: Woff2EncodeAttempt[]
+): Generator<Candidate> {
+  const optimize = options?.optimize
+  if (optimize !== undefined && optimize !== 'size') {
+    throw new WoffError('INVALID_OPTION', `Unknown optimize mode: ${String(optimize)}`)
+  }
+  checkBrotliOptions(options)
+  const input = data instanceof Uint8Array ? data : new Uint8Array(data)
+
+  if (!optimize) {
+    const font = prepareFont(input, options)
+    const settings = {
+      ...appliedTransforms(font),
+      mode: ENCODER_MODES[options?.mode ?? 'font'],
+      lgwin: effectiveWindow(font.tableDataStream.byteLength, options?.lgwin, sync, options?.compression),
+    }
+    const attempt = attemptReport(settings)
+    attempts.push(attempt)
+    yield { font, settings, attempt }
+    return
+  }
+
+  const glyfChoices = options.transformGlyf === undefined ? [true, false] : [options.transformGlyf]
+  const hmtxChoices = options.transformHmtx === undefined ? [true, false] : [options.transformHmtx]
+  const prepared = new Set<string>()
+  let failure: unknown = null
+
+  for (const transformGlyf of glyfChoices) {
+    for (const transformHmtx of hmtxChoices) {
+      let font: PreparedFont
+      try {
+        font = prepareFont(input, { ...options, transformGlyf, transformHmtx })
+      } catch (err) {
+        failure ??= err
+        attempts.push({
+          ...attemptReport({
+            transformGlyf,
+            transformHmtx,
+            mode: ENCODER_MODES[options.mode ?? 'font'],
+            lgwin: options.lgwin ?? DEFAULT_LGWIN,
+          }),
+          error: err instanceof Error ? err.message : String(err),
+        })
+        continue
+      }
+
+      const applied = appliedTransforms(font)
+      const key = `${applied.transformGlyf}:${applied.transformHmtx}`
+      if (prepared.has(key)) continue
+      prepared.add(key)
+
+      const modes = options.mode ? [ENCODER_MODES[options.mode]] : [EncoderMode.FONT, EncoderMode.GENERIC]
+      const length = font.tableDataStream.byteLength
+      const windows = new Set((options.lgwin !== undefined ? [options.lgwin] : windowSizes(length))
+        .map(lgwin => effectiveWindow(length, lgwin, sync, options.compression)))
+      for (const mode of modes) {
+        for (const lgwin of windows) {
+          const settings = { ...applied, mode, lgwin }
+          const attempt = attemptReport(settings)
+          attempts.push(attempt)
+          yield { font, settings, attempt }
+        }
       }
     }
   }
 
-  // Build table info array
-  for (const tag of sortedTags) {
-    const entry = font.tables.get(tag)!
-
-    if (tag === TAG_GLYF && transformedGlyfData) {
-      // Transformed glyf (transform version 0)
-      tableInfos.push({
-        tag,
-        origLength: glyfOrigLength,
-        transformLength: transformedGlyfData.byteLength,
-        transformVersion: 0,
-        data: transformedGlyfData,
-      })
-    } else if (tag === TAG_LOCA && transformedGlyfData) {
-      // Transformed loca (becomes empty - reconstructed from glyf)
-      const locaEntry = font.tables.get(TAG_LOCA)!
-      tableInfos.push({
-        tag,
-        origLength: locaEntry.length,
-        transformLength: 0,
-        transformVersion: 0,
-        data: new Uint8Array(0),
-      })
-    } else if (tag === TAG_HMTX && transformedHmtxData) {
-      // Transformed hmtx (transform version 1)
-      tableInfos.push({
-        tag,
-        origLength: hmtxOrigLength,
-        transformLength: transformedHmtxData.byteLength,
-        transformVersion: 1,
-        data: transformedHmtxData,
-      })
-    } else if (tag === TAG_HEAD) {
-      // head table: set bit 11 as required by spec
-      const tableData = new Uint8Array(entry.length)
-      tableData.set(input.subarray(entry.offset, entry.offset + entry.length))
-      
-      // Set bit 11 in flags field (offset 16-17)
-      const view = new DataView(tableData.buffer)
-      const flags = view.getUint16(16)
-      view.setUint16(16, flags | HEAD_FLAG_BIT_11)
-      
-      tableInfos.push({
-        tag,
-        origLength: entry.length,
-        transformLength: entry.length,
-        transformVersion: 0, // No transform for head
-        data: tableData,
-      })
-    } else {
-      // Untransformed table
-      const tableData = input.subarray(entry.offset, entry.offset + entry.length)
-      tableInfos.push({
-        tag,
-        origLength: entry.length,
-        transformLength: entry.length,
-        transformVersion: 0, // transform version 0 = no transform for non-glyf/loca
-        data: tableData,
-      })
+  if (prepared.size === 0) {
+    throw failure
+  }
+}
+
+// Reject Brotli parameters outside the ranges the encoders accept
+function checkBrotliOptions(options?: Woff2EncodeOptions): void {
+  const checkRange = (name: string, value: number | undefined, min: number, max: number) => {
+    if (value !== undefined && !(Number.isInteger(value) && value >= min && value <= max)) {
+      throw new WoffError('INVALID_OPTION', `Brotli ${name} must be an integer from ${min} to ${max}, got ${value}`)
     }
   }
+  checkRange('lgwin', options?.lgwin, MIN_LGWIN, MAX_LGWIN)
+  checkRange('lgblock', options?.lgblock, MIN_LGBLOCK, MAX_LGBLOCK)
+  checkRange('sizeHint', options?.sizeHint, 0, 0xffffffff)
+  if (options?.mode !== undefined && !Object.keys(ENCODER_MODES).includes(options.mode)) {
+    throw new WoffError('INVALID_OPTION', `Unknown Brotli mode: ${String(options.mode)}`)
+  }
+}
+
+// Transforms a prepared font actually got; hmtx is only transformed with glyf
+// and when that saves space, and fonts without glyf have neither
+function appliedTransforms(font: PreparedFont): { transformGlyf: boolean; transformHmtx: boolean } {
+  return {
+    transformGlyf: font.tableInfos.some(info => info.tag === TAG_GLYF && info.transformVersion === 0),
+    transformHmtx: font.tableInfos.some(info => info.tag === TAG_HMTX && info.transformVersion === 1),
+  }
+}
+
+function attemptReport(settings: EncodeSettings): Woff2EncodeAttempt {
+  return {
+    transformGlyf: settings.transformGlyf,
+    transformHmtx: settings.transformHmtx,
+    mode: MODE_NAMES[settings.mode],
+    lgwin: settings.lgwin,
+    chosen: false,
+  }
+}
+
+// Windows worth trying: the default, and one holding the whole stream when
+// it is larger than that
+function windowSizes(length: number): number[] {
+  let lgwin = DEFAULT_LGWIN
+  while (lgwin < MAX_LGWIN && (1 << lgwin) - 16 < length) {
+    lgwin++
+  }
+  return lgwin === DEFAULT_LGWIN ? [DEFAULT_LGWIN] : [DEFAULT_LGWIN, lgwin]
+}
+
+// Quality of the per-table compression estimating each table's share;
+// brotli-lib takes far longer at higher settings
+const STATS_QUALITY = 5
+
+// Table sizes of the chosen encoding. Each table's share of the compressed
+// font data is estimated by compressing it on its own, since one Brotli
+// stream can't be split up by table
+function encodeStats(
+  { font, settings }: Candidate,
+  compressedLength: number,
+  options?: Woff2EncodeOptions
+): Woff2EncodeStats {
+  const quality = Math.min(options?.quality ?? 11, STATS_QUALITY)
+  const alone = font.tableInfos.map(info => info.data.byteLength === 0 ? 0 : compressSync(info.data, {
+    quality,
+    mode: settings.mode,
+    lgwin: settings.lgwin,
+  }, options?.compression).byteLength)
+  const total = alone.reduce((sum, length) => sum + length, 0)
+
+  const tables = font.tableInfos.map((info, i) => {
+    const share = total === 0 ? 0 : alone[i] / total
+    const table: Woff2TableStats = {
+      tag: tagToString(info.tag),
+      origLength: info.origLength,
+      transformLength: info.data.byteLength,
+      transformVersion: info.transformVersion,
+      compressedLength: Math.round(share * compressedLength),
+      compressedShare: share,
+    }
+    if (info.glyfStreams) table.glyfStreams = info.glyfStreams
+    if (info.hmtx) table.hmtx = info.hmtx
+    return table
+  })
+  return { tables, compressedLength }
+}
+
+// Record a candidate's output size, keeping it if it is smaller than the
+// best so far; the earliest candidate wins ties
+function keepSmaller(
+  best: Encoded | null,
+  candidate: Candidate,
+  compressed: Uint8Array,
+  woff2: Uint8Array
+): Encoded {
+  candidate.attempt.length = woff2.byteLength
+  if (best && best.woff2.byteLength <= woff2.byteLength) {
+    return best
+  }
+  return { candidate, woff2, compressedLength: compressed.byteLength }
+}
+
+function prepareFont(input: Uint8Array, options?: Woff2EncodeOptions): PreparedFont {
+  // Parse SFNT or TTC
+  const collection = isCollection(input) ? parseSfntCollection(input) : null
+  const fonts = collection ? collection.fonts : [parseSfnt(input)]
+
+  const { tables, fontTables } = collectTables(fonts)
+  const tableInfos = buildTableInfos(tables, fontTables, options)
 
   // Concatenate all table data for compression
   let totalTransformSize = 0
@@ -159,15 +439,59 @@ export function woff2Encode(
     tableDataStream.set(info.data, streamOffset)
     streamOffset += info.data.byteLength
   }
+  const font = { collection, fonts, fontTables, tableInfos, tableDataStream, metadataBytes: null }
+  storeCheckSumAdjustments(font)
 
-  // Compress with Brotli using FONT mode
-  const compressed = brotliEncode(tableDataStream, {
-    quality,
-    mode: EncoderMode.FONT,
-  })
+  // Extended metadata is UTF-8 XML, compressed separately
+  let metadataBytes: Uint8Array | null = null
+  if (options?.metadata) {
+    const xml = typeof options.metadata === 'string'
+      ? options.metadata
+      : serializeMetadata(options.metadata)
+    metadataBytes = new TextEncoder().encode(xml)
+  }
+
+  return { ...font, metadataBytes }
+}
+
+// Store the head.checkSumAdjustment of the font the decoder rebuilds, as the
+// reference encoder does. The decoder lays tables out in directory order and
+// rebuilds glyf and loca, so the input font's value rarely survives
+function storeCheckSumAdjustments(font: PreparedFont): void {
+  const header = readHeader(writeWoff2(font, new Uint8Array(0), null))
+  const rebuilt = finishFont(font.tableDataStream, header, {}, null)
+  const src = new DataView(font.tableDataStream.buffer)
+  const dst = new DataView(rebuilt.buffer, rebuilt.byteOffset)
+  for (const table of header.tables) {
+    if (table.tag === TAG_HEAD && table.origLength >= 12) {
+      src.setUint32(table.srcOffset + 8, dst.getUint32(table.dstOffset + 8))
+    }
+  }
+}
+
+// Write the WOFF2 file around the compressed font data and metadata
+function writeWoff2(
+  font: PreparedFont,
+  compressed: Uint8Array,
+  metadata: Uint8Array | null,
+  options?: Woff2EncodeOptions
+): Uint8Array {
+  const { collection, fonts, fontTables, tableInfos } = font
+  const metaOrigLength = font.metadataBytes?.byteLength ?? 0
 
   // Calculate total original SFNT size
-  let totalSfntSize = SFNT_HEADER_SIZE + tableInfos.length * SFNT_ENTRY_SIZE
+  let totalSfntSize = 0
+  if (collection) {
+    totalSfntSize = 12 + 4 * fonts.length // ttcTag, version, numFonts, offset table
+    if (collection.version === 0x00020000) {
+      totalSfntSize += 12 // DSIG fields
+    }
+    for (const indices of fontTables) {
+      totalSfntSize += SFNT_HEADER_SIZE + indices.size * SFNT_ENTRY_SIZE
+    }
+  } else {
+    totalSfntSize = SFNT_HEADER_SIZE + tableInfos.length * SFNT_ENTRY_SIZE
+  }
   for (const info of tableInfos) {
     totalSfntSize += (info.origLength + 3) & ~3 // padded
   }
@@ -193,26 +517,51 @@ export function woff2Encode(
     }
   }
 
+  // Collection directory follows the table directory
+  if (collection) {
+    tableDirectorySize += 4 + size255UShort(fonts.length) // ttcVersion, numFonts
+    for (let i = 0; i < fonts.length; i++) {
+      const indices = sortedTableIndices(fontTables[i])
+      tableDirectorySize += size255UShort(indices.length) + 4 // numTables, flavor
+      for (const index of indices) {
+        tableDirectorySize += size255UShort(index)
+      }
+    }
+  }
+
+  const privateData = options?.privateData?.byteLength ? options.privateData : null
+
   // Build WOFF2 output
+  // Metadata and private blocks each start on a 4-byte boundary, in that order
   const woff2HeaderSize = 48
-  const totalSize = woff2HeaderSize + tableDirectorySize + compressed.byteLength
+  let totalSize = woff2HeaderSize + tableDirectorySize + compressed.byteLength
+  let metaOffset = 0
+  let privOffset = 0
+  if (metadata) {
+    metaOffset = pad4(totalSize)
+    totalSize = metaOffset + metadata.byteLength
+  }
+  if (privateData) {
+    privOffset = pad4(totalSize)
+    totalSize = privOffset + privateData.byteLength
+  }
   const output = new WriteBuffer(totalSize)
 
   // Write WOFF2 header
   output.writeU32(WOFF2_SIGNATURE) // signature 'wOF2'
-  output.writeU32(font.flavor) // flavor (original SFNT signature)
+  output.writeU32(collection ? TTC_FLAVOR : fonts[0].flavor) // flavor (original SFNT signature)
   output.writeU32(totalSize) // length
   output.writeU16(tableInfos.length) // numTables
   output.writeU16(0) // reserved
   output.writeU32(totalSfntSize) // totalSfntSize
   output.writeU32(compressed.byteLength) // totalCompressedSize
-  output.writeU16(1) // majorVersion
-  output.writeU16(0) // minorVersion
-  output.writeU32(0) // metaOffset
-  output.writeU32(0) // metaLength
-  output.writeU32(0) // metaOrigLength
-  output.writeU32(0) // privOffset
-  output.writeU32(0) // privLength
+  output.writeU16(options?.majorVersion ?? 1) // majorVersion
+  output.writeU16(options?.minorVersion ?? 0) // minorVersion
+  output.writeU32(metaOffset) // metaOffset
+  output.writeU32(metadata?.byteLength ?? 0) // metaLength
+  output.writeU32(metaOrigLength) // metaOrigLength
+  output.writeU32(privOffset) // privOffset
+  output.writeU32(privateData?.byteLength ?? 0) // privLength
 
   // Write table directory
   for (const info of tableInfos) {
@@ -258,8 +607,256 @@ export function woff2Encode(
     }
   }
 
+  // Write collection directory
+  if (collection) {
+    output.writeU32(collection.version)
+    output.write255UShort(fonts.length)
+    for (let i = 0; i < fonts.length; i++) {
+      const indices = sortedTableIndices(fontTables[i])
+      output.write255UShort(indices.length)
+      output.writeU32(fonts[i].flavor)
+      for (const index of indices) {
+        output.write255UShort(index)
+      }
+    }
+  }
+
   // Write compressed data
   output.writeBytes(compressed)
 
+  // Write metadata block
+  if (metadata) {
+    output.pad4()
+    output.writeBytes(metadata)
+  }
+
+  // Write private data block
+  if (privateData) {
+    output.pad4()
+    output.writeBytes(privateData)
+  }
+
   return output.getBytes()
 }
+
+// Collect tables from all fonts, sharing byte-identical tables between fonts.
+// glyf and loca are matched as a pair since loca is rebuilt from glyf on
+// decode; in collections loca immediately follows its glyf in the directory
+function collectTables(
+  fonts: SfntFont[]
+): { tables: SourceTable[]; fontTables: Map<number, number>[] } {
+  const tables: SourceTable[] = []
+  const fontTables: Map<number, number>[] = []
+  const candidates = new Map<string, number[]>()
+
+  const addTable = (font: SfntFont, fontIndex: number, tag: number, key: string): number => {
+    const index = tables.length
+    tables.push({ tag, font, data: getTableData(font, tag)!, fontIndices: [fontIndex], partner: -1 })
+    const list = candidates.get(key)
+    if (list) {
+      list.push(index)
+    } else {
+      candidates.set(key, [index])
+    }
+    return index
+  }
+
+  for (let fontIndex = 0; fontIndex < fonts.length; fontIndex++) {
+    const font = fonts[fontIndex]
+    const tagToIndex = new Map<number, number>()
+    const glyfData = getTableData(font, TAG_GLYF)
+    const locaData = getTableData(font, TAG_LOCA)
+    const paired = glyfData !== null && locaData !== null
+
+    // Build table list sorted by tag, excluding DSIG (must be removed per spec).
+    // loca must immediately follow glyf in the table directory
+    let tags = [...font.tables.keys()]
+      .filter(tag => tag !== TAG_DSIG)
+      .sort((a, b) => a - b)
+    if (paired) {
+      tags = tags.filter(tag => tag !== TAG_LOCA)
+      tags.splice(tags.indexOf(TAG_GLYF) + 1, 0, TAG_LOCA)
+    }
+
+    for (const tag of tags) {
+      if (tagToIndex.has(tag)) continue
+
+      if (paired && tag === TAG_GLYF) {
+        const key = `${tag}:${tableKey(glyfData)}:${tableKey(locaData)}`
+        const existing = (candidates.get(key) ?? []).find(i =>
+          bytesEqual(tables[i].data, glyfData) &&
+          bytesEqual(tables[tables[i].partner].data, locaData)
+        )
+        if (existing !== undefined) {
+          const partner = tables[existing].partner
+          tables[existing].fontIndices.push(fontIndex)
+          tables[partner].fontIndices.push(fontIndex)
+          tagToIndex.set(TAG_GLYF, existing)
+          tagToIndex.set(TAG_LOCA, partner)
+        } else {
+          tagToIndex.set(TAG_GLYF, addTable(font, fontIndex, tag, key))
+        }
+      } else if (paired && tag === TAG_LOCA) {
+        // New glyf/loca pair; loca is only reached here when glyf was added
+        const glyfIndex = tagToIndex.get(TAG_GLYF)!
+        const locaIndex = addTable(font, fontIndex, tag, `${tag}:${glyfIndex}`)
+        tables[glyfIndex].partner = locaIndex
+        tables[locaIndex].partner = glyfIndex
+        tagToIndex.set(TAG_LOCA, locaIndex)
+      } else {
+        const tableData = getTableData(font, tag)!
+        const key = `${tag}:${tableKey(tableData)}`
+        const existing = (candidates.get(key) ?? []).find(i => bytesEqual(tables[i].data, tableData))
+        if (existing !== undefined) {
+          tables[existing].fontIndices.push(fontIndex)
+          tagToIndex.set(tag, existing)
+        } else {
+          tagToIndex.set(tag, addTable(font, fontIndex, tag, key))
+        }
+      }
+    }
+
+    fontTables.push(tagToIndex)
+  }
+
+  return { tables, fontTables }
+}
+
+// Apply glyf/loca and hmtx transforms and build the final table list
+function buildTableInfos(
+  tables: SourceTable[],
+  fontTables: Map<number, number>[],
+  options?: Woff2EncodeOptions
+): TableInfo[] {
+  const tableInfos: TableInfo[] = new Array(tables.length)
+  const glyphInfos = new Map<number, GlyphInfo>()
+
+  // Transform glyf/loca for TrueType fonts
+  for (let i = 0; i < tables.length && options?.transformGlyf !== false; i++) {
+    const table = tables[i]
+    if (table.tag !== TAG_GLYF || table.partner < 0 || isCff(table.font)) continue
+
+    const glyphInfo = getGlyphInfo(table.font)
+    const transformed = transformGlyf(table.font, glyphInfo)
+    glyphInfos.set(i, glyphInfo)
+
+    // Transformed glyf (transform version 0)
+    tableInfos[i] = {
+      tag: TAG_GLYF,
+      origLength: transformed.origLength,
+      transformLength: transformed.data.byteLength,
+      transformVersion: 0,
+      data: transformed.data,
+      glyfStreams: transformed.streams,
+    }
+
+    // Transformed loca (becomes empty - reconstructed from glyf)
+    tableInfos[table.partner] = {
+      tag: TAG_LOCA,
+      origLength: tables[table.partner].data.byteLength,
+      transformLength: 0,
+      transformVersion: 0,
+      data: new Uint8Array(0),
+    }
+  }
+
+  for (let i = 0; i < tables.length; i++) {
+    if (tableInfos[i]) continue
+    const table = tables[i]
+    const tableData = table.data
+
+    let hmtxReason: Woff2HmtxStats['reason'] = 'disabled'
+    if (table.tag === TAG_HMTX && options?.transformHmtx !== false) {
+      // Transform hmtx if glyf is transformed (LSB optimization). The decoder
+      // takes xMin from the font that first writes hmtx, so every font sharing
+      // this hmtx must also share the glyf
+      const glyfIndex = fontTables[table.fontIndices[0]].get(TAG_GLYF)
+      const glyphInfo = glyfIndex !== undefined ? glyphInfos.get(glyfIndex) : undefined
+      hmtxReason = 'glyf-untransformed'
+      if (glyphInfo && sameFonts(tables[glyfIndex!].fontIndices, table.fontIndices)) {
+        const numHMetrics = getNumHMetrics(table.font)
+        const transformed = transformHmtx(table.font, tableData, numHMetrics, glyphInfo)
+        if (typeof transformed !== 'string') {
+          // Transformed hmtx (transform version 1)
+          tableInfos[i] = {
+            tag: TAG_HMTX,
+            origLength: tableData.byteLength,
+            transformLength: transformed.data.byteLength,
+            transformVersion: 1,
+            data: transformed.data,
+            hmtx: {
+              transformed: true,
+              proportionalLsbRemoved: transformed.proportionalLsbRemoved,
+              monospaceLsbRemoved: transformed.monospaceLsbRemoved,
+            },
+          }
+          continue
+        }
+        hmtxReason = transformed
+      }
+    }
+
+    if (table.tag === TAG_HEAD) {
+      // head table: set bit 11 as required by spec
+      const headData = new Uint8Array(tableData.byteLength)
+      headData.set(tableData)
+
+      // Set bit 11 in flags field (offset 16-17)
+      const view = new DataView(headData.buffer)
+      const flags = view.getUint16(16)
+      view.setUint16(16, flags | HEAD_FLAG_BIT_11)
+
+      tableInfos[i] = {
+        tag: TAG_HEAD,
+        origLength: tableData.byteLength,
+        transformLength: tableData.byteLength,
+        transformVersion: 0, // No transform for head
+        data: headData,
+      }
+    } else {
+      // Untransformed table; glyf and loca take the null transform, version 3
+      const nullTransform = table.tag === TAG_GLYF || table.tag === TAG_LOCA ? 3 : 0
+      tableInfos[i] = {
+        tag: table.tag,
+        origLength: tableData.byteLength,
+        transformLength: tableData.byteLength,
+        transformVersion: nullTransform,
+        data: tableData,
+      }
+      if (table.tag === TAG_HMTX) {
+        tableInfos[i].hmtx = {
+          transformed: false,
+          proportionalLsbRemoved: false,
+          monospaceLsbRemoved: false,
+          reason: hmtxReason,
+        }
+      }
+    }
+  }
+
+  return tableInfos
+}
+
+// Table indices for a collection font, in tag order
+function sortedTableIndices(tagToIndex: Map<number, number>): number[] {
+  return [...tagToIndex.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([, index]) => index)
+}
+
+function tableKey(data: Uint8Array): string {
+  return `${data.byteLength}:${computeChecksum(data, 0, data.byteLength)}`
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+function sameFonts(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((fontIndex, i) => fontIndex === b[i])
+}
+
@@ -9,7 +9,9 @@ import {
   TAG_CFF2,
   SFNT_TTF,
   SFNT_CFF,
+  TTC_FLAVOR,
 } from '../../shared/known-tags'
+import { SfntError } from '../../shared/errors'
 
 export interface SfntTable {
   tag: number
@@ -25,6 +27,11 @@ export interface SfntFont {
   view: DataView
 }
 
+export interface SfntCollection {
+  version: number  // TTC header version (0x00010000 or 0x00020000)
+  fonts: SfntFont[]
+}
+
 export interface GlyphInfo {
   numGlyphs: number
   indexFormat: number  // 0 = short (uint16), 1 = long (uint32)
@@ -34,24 +41,69 @@ export interface GlyphInfo {
 // Parse SFNT font
 export function parseSfnt(data: Uint8Array): SfntFont {
   if (data.byteLength < 12) {
-    throw new Error('Buffer too small for SFNT header')
+    throw new SfntError('Buffer too small for SFNT header', { offset: 0 })
   }
 
   const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
-  const flavor = view.getUint32(0)
+  return parseOffsetTable(data, view, 0)
+}
+
+// Check for a TrueType/OpenType collection ('ttcf')
+export function isCollection(data: Uint8Array): boolean {
+  return (
+    data.byteLength >= 4 &&
+    ((data[0] << 24) | (data[1] << 16) | (data[2] << 8) | data[3]) >>> 0 === TTC_FLAVOR
+  )
+}
+
+// Parse TTC font collection; table offsets are relative to the collection
+export function parseSfntCollection(data: Uint8Array): SfntCollection {
+  if (data.byteLength < 12) {
+    throw new SfntError('Buffer too small for TTC header', { offset: 0 })
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  if (view.getUint32(0) !== TTC_FLAVOR) {
+    throw new SfntError('Missing ttcf signature', { offset: 0 })
+  }
+
+  const version = view.getUint32(4)
+  if (version !== 0x00010000 && version !== 0x00020000) {
+    throw new SfntError(`Unknown TTC version: 0x${version.toString(16)}`, { offset: 4 })
+  }
+
+  const numFonts = view.getUint32(8)
+  if (numFonts === 0 || 12 + numFonts * 4 > data.byteLength) {
+    throw new SfntError('Invalid TTC font count', { offset: 8 })
+  }
+
+  const fonts: SfntFont[] = []
+  for (let i = 0; i < numFonts; i++) {
+    const offset = view.getUint32(12 + i * 4)
+    if (offset + 12 > data.byteLength) {
+      throw new SfntError(`TTC font ${i} offset out of bounds`, { offset: 12 + i * 4 })
+    }
+    fonts.push(parseOffsetTable(data, view, offset))
+  }
+
+  return { version, fonts }
+}
+
+function parseOffsetTable(data: Uint8Array, view: DataView, start: number): SfntFont {
+  const flavor = view.getUint32(start)
 
   if (flavor !== SFNT_TTF && flavor !== SFNT_CFF) {
-    throw new Error(`Unknown SFNT signature: 0x${flavor.toString(16)}`)
+    throw new SfntError(`Unknown SFNT signature: 0x${flavor.toString(16)}`, { offset: start })
   }
 
-  const numTables = view.getUint16(4)
+  const numTables = view.getUint16(start + 4)
   const tables = new Map<number, SfntTable>()
 
   for (let i = 0; i < numTables; i++) {
-    const recordOffset = 12 + i * 16
+    const recordOffset = start + 12 + i * 16
 
     if (recordOffset + 16 > data.byteLength) {
-      throw new Error('Table directory truncated')
+      throw new SfntError('Table directory truncated', { offset: recordOffset })
     }
 
     const tag = view.getUint32(recordOffset)
@@ -81,7 +133,7 @@ export function isCff(font: SfntFont): boolean {
 export function getNumGlyphs(font: SfntFont): number {
   const maxp = font.tables.get(TAG_MAXP)
   if (!maxp || maxp.length < 6) {
-    throw new Error('Missing or invalid maxp table')
+    throw new SfntError('Missing or invalid maxp table', { tag: 'maxp' })
   }
   return font.view.getUint16(maxp.offset + 4)
 }
@@ -90,7 +142,7 @@ export function getNumGlyphs(font: SfntFont): number {
 export function getIndexToLocFormat(font: SfntFont): number {
   const head = font.tables.get(TAG_HEAD)
   if (!head || head.length < 54) {
-    throw new Error('Missing or invalid head table')
+    throw new SfntError('Missing or invalid head table', { tag: 'head' })
   }
   return font.view.getInt16(head.offset + 50)
 }
@@ -99,7 +151,7 @@ export function getIndexToLocFormat(font: SfntFont): number {
 export function getNumHMetrics(font: SfntFont): number {
   const hhea = font.tables.get(TAG_HHEA)
   if (!hhea || hhea.length < 36) {
-    throw new Error('Missing or invalid hhea table')
+    throw new SfntError('Missing or invalid hhea table', { tag: 'hhea' })
   }
   return font.view.getUint16(hhea.offset + 34)
 }
@@ -111,7 +163,7 @@ export function parseLocaTable(font: SfntFont): Uint32Array {
   
   const loca = font.tables.get(TAG_LOCA)
   if (!loca) {
-    throw new Error('Missing loca table')
+    throw new SfntError('Missing loca table', { tag: 'loca' })
   }
 
   const offsets = new Uint32Array(numGlyphs + 1)
@@ -199,6 +251,10 @@ export function parseGlyph(
 
   const view = font.view
   const start = glyfOffset + glyphOffset
+  const end = start + glyphLength
+  if (glyphLength < 10 || end > font.data.byteLength) {
+    throw new SfntError('Glyph data truncated', { offset: start, tag: 'glyf' })
+  }
 
   const nContours = view.getInt16(start)
   const xMin = view.getInt16(start + 2)
@@ -207,17 +263,25 @@ export function parseGlyph(
   const yMax = view.getInt16(start + 8)
 
   if (nContours >= 0) {
-    return parseSimpleGlyph(font, start, nContours, xMin, yMin, xMax, yMax)
+    return parseSimpleGlyph(font, start, end, nContours, xMin, yMin, xMax, yMax)
   } else if (nContours === -1) {
-    return parseCompositeGlyph(font, start, xMin, yMin, xMax, yMax, glyphLength)
+    return parseCompositeGlyph(font, start, end, xMin, yMin, xMax, yMax)
   }
 
-  throw new Error(`Invalid nContours: ${nContours}`)
+  throw new SfntError(`Invalid nContours: ${nContours}`, { offset: start, tag: 'glyf' })
+}
+
+// Glyph data must not run past the next loca offset
+function checkGlyphEnd(pos: number, start: number, end: number): void {
+  if (pos > end) {
+    throw new SfntError('Glyph data overruns its loca entry', { offset: start, tag: 'glyf' })
+  }
 }
 
 function parseSimpleGlyph(
   font: SfntFont,
   start: number,
+  end: number,
   nContours: number,
   xMin: number,
   yMin: number,
@@ -229,6 +293,7 @@ function parseSimpleGlyph(
   let pos = start + 10
 
   // Read endPtsOfContours
+  checkGlyphEnd(pos + nContours * 2 + 2, start, end)
   const endPtsOfContours = new Uint16Array(nContours)
   for (let i = 0; i < nContours; i++) {
     endPtsOfContours[i] = view.getUint16(pos)
@@ -289,6 +354,7 @@ function parseSimpleGlyph(
     }
     yCoordinates[i] = y
   }
+  checkGlyphEnd(pos, start, end)
 
   return {
     nContours,
@@ -308,11 +374,11 @@ function parseSimpleGlyph(
 function parseCompositeGlyph(
   font: SfntFont,
   start: number,
+  end: number,
   xMin: number,
   yMin: number,
   xMax: number,
-  yMax: number,
-  _glyphLength: number
+  yMax: number
 ): CompositeGlyph {
   const view = font.view
   const data = font.data
@@ -324,6 +390,7 @@ function parseCompositeGlyph(
 
   // Scan composite data
   while (flags & COMP_MORE_COMPONENTS) {
+    checkGlyphEnd(pos + 4, start, end)
     flags = view.getUint16(pos)
     pos += 2
 
@@ -349,12 +416,15 @@ function parseCompositeGlyph(
     }
   }
 
+  checkGlyphEnd(pos, start, end)
   const compositeData = data.subarray(compositeStart, pos)
 
   let instructions: Uint8Array | null = null
   if (haveInstructions) {
+    checkGlyphEnd(pos + 2, start, end)
     const instructionLength = view.getUint16(pos)
     pos += 2
+    checkGlyphEnd(pos + instructionLength, start, end)
     instructions = data.subarray(pos, pos + instructionLength)
   }
 
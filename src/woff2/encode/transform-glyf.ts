@@ -10,10 +10,24 @@ import {
   parseGlyph,
 } from './sfnt'
 import { TAG_GLYF } from '../../shared/known-tags'
+import { SfntError } from '../../shared/errors'
 
 export interface TransformedGlyf {
   data: Uint8Array
   origLength: number
+  streams: GlyfStreamSizes
+}
+
+// Byte sizes of the transformed glyf substreams
+export interface GlyfStreamSizes {
+  nContour: number
+  nPoints: number
+  flag: number
+  glyph: number
+  composite: number
+  bbox: number // bitmap and stream
+  instruction: number
+  overlapBitmap: number // 0 when no glyph has an overlap flag
 }
 
 // Transform glyf table to WOFF2 format
@@ -25,7 +39,7 @@ export function transformGlyf(
 
   const glyfEntry = font.tables.get(TAG_GLYF)
   if (!glyfEntry) {
-    throw new Error('Missing glyf table')
+    throw new SfntError('Missing glyf table', { tag: 'glyf' })
   }
   const glyfOffset = glyfEntry.offset
   const origLength = glyfEntry.length
@@ -142,6 +156,16 @@ export function transformGlyf(
   return {
     data: output.getBytes(),
     origLength,
+    streams: {
+      nContour: nContourStream.offset,
+      nPoints: nPointsStream.offset,
+      flag: flagStream.offset,
+      glyph: glyphStream.offset,
+      composite: compositeStream.offset,
+      bbox: bboxBitmapLength + bboxStream.offset,
+      instruction: instructionStream.offset,
+      overlapBitmap: hasAnyOverlap ? overlapBitmap.byteLength : 0,
+    },
   }
 }
 
@@ -302,7 +326,7 @@ function writeTriplet(
 
   // Case 2: dy=0, dx in [0, 1280)
   if (dy === 0 && absDx < 1280) {
-    flagStream.writeU8Fast(onCurveBit | 10 | ((absDx >> 7) & 0x0e) | xSign)
+    flagStream.writeU8Fast(onCurveBit | (10 + ((absDx >> 7) & 0x0e) + xSign))
     glyphStream.writeU8Fast(absDx & 0xff)
     return
   }
@@ -311,10 +335,10 @@ function writeTriplet(
   if (absDx > 0 && absDx < 65 && absDy > 0 && absDy < 65) {
     const xySign = xSign | (ySign << 1)
     flagStream.writeU8Fast(
-      onCurveBit | 20 |
-      ((absDx - 1) & 0x30) |
-      (((absDy - 1) & 0x30) >> 2) |
-      xySign
+      onCurveBit | (20 +
+      ((absDx - 1) & 0x30) +
+      (((absDy - 1) & 0x30) >> 2) +
+      xySign)
     )
     glyphStream.writeU8Fast((((absDx - 1) & 0x0f) << 4) | ((absDy - 1) & 0x0f))
     return
@@ -324,10 +348,10 @@ function writeTriplet(
   if (absDx > 0 && absDx < 769 && absDy > 0 && absDy < 769) {
     const xySign = xSign | (ySign << 1)
     flagStream.writeU8Fast(
-      onCurveBit | 84 |
-      (((absDx - 1) >> 8) * 12) |
-      (((absDy - 1) >> 6) & 0x0c) |
-      xySign
+      onCurveBit | (84 +
+      (((absDx - 1) >> 8) * 12) +
+      (((absDy - 1) >> 6) & 0x0c) +
+      xySign)
     )
     glyphStream.writeU8Fast((absDx - 1) & 0xff)
     glyphStream.writeU8Fast((absDy - 1) & 0xff)
@@ -7,18 +7,24 @@ import { TAG_GLYF } from '../../shared/known-tags'
 
 export interface TransformedHmtx {
   data: Uint8Array
+  proportionalLsbRemoved: boolean
+  monospaceLsbRemoved: boolean
 }
 
-// Returns null if no space savings possible
+// Why hmtx is left untransformed: neither kind of LSB matches every glyph's
+// xMin, or dropping the ones that do saves no space
+export type HmtxKeptReason = 'lsb-mismatch' | 'no-savings'
+
+// Returns the reason instead if no space savings possible
 export function transformHmtx(
   font: SfntFont,
   hmtxData: Uint8Array,
   numHMetrics: number,
   glyphInfo: GlyphInfo
-): TransformedHmtx | null {
+): TransformedHmtx | HmtxKeptReason {
   const { numGlyphs, glyphOffsets } = glyphInfo
   const glyfEntry = font.tables.get(TAG_GLYF)
-  if (!glyfEntry) return null
+  if (!glyfEntry) return 'lsb-mismatch'
 
   const view = new DataView(hmtxData.buffer, hmtxData.byteOffset, hmtxData.byteLength)
 
@@ -72,7 +78,7 @@ export function transformHmtx(
 
     // Early exit if no optimization possible
     if (!canEliminateProportionalLsb && !canEliminateMonospaceLsb) {
-      return null
+      return 'lsb-mismatch'
     }
   }
 
@@ -89,7 +95,7 @@ export function transformHmtx(
 
   // Don't transform if it doesn't save space
   if (size >= hmtxData.byteLength) {
-    return null
+    return 'no-savings'
   }
 
   const output = new WriteBuffer(size)
@@ -114,5 +120,9 @@ export function transformHmtx(
     }
   }
 
-  return { data: output.getBytes() }
+  return {
+    data: output.getBytes(),
+    proportionalLsbRemoved: canEliminateProportionalLsb,
+    monospaceLsbRemoved: canEliminateMonospaceLsb,
+  }
 }
@@ -96,6 +96,14 @@ export class WriteBuffer {
     }
   }
 
+  // Zero-fill to the next 4-byte boundary
+  pad4(): void {
+    const padding = (4 - (this.pos & 3)) & 3
+    this.ensureCapacity(padding)
+    this.data.fill(0, this.pos, this.pos + padding)
+    this.pos += padding
+  }
+
   getBytes(): Uint8Array {
     return this.data.subarray(0, this.pos)
   }
@@ -1,2 +1,47 @@
-export { woff2Decode } from './decode/decode'
-export { woff2Encode, type Woff2EncodeOptions } from './encode/encode'
+export {
+  woff2Decode,
+  woff2DecodeDetailed,
+  woff2DecodeCollectionFont,
+  woff2DecodeCollectionFonts,
+  type Woff2DecodeResult,
+  type Woff2DecodeOptions,
+} from './decode/decode'
+export { inspectWoff2, type Woff2Info, type Woff2TableInfo, type Woff2CollectionFontInfo } from './decode/inspect'
+export { validateWoff2 } from './decode/validate'
+export { Woff2DecoderStream, type Woff2StreamChunk } from './decode/stream'
+export { type ValidationReport, type ValidationFinding, type FindingSeverity } from '../shared/validation'
+export {
+  woff2Encode,
+  woff2EncodeAsync,
+  woff2EncodeDetailed,
+  type Woff2EncodeAttempt,
+  type Woff2EncodeOptions,
+  type Woff2EncodeResult,
+  type Woff2EncodeStats,
+  type Woff2HmtxStats,
+  type Woff2TableStats,
+} from './encode/encode'
+export { type GlyfStreamSizes } from './encode/transform-glyf'
+export { type ChecksumMismatch, type ChecksumVerification } from '../shared/checksum'
+export { type DecodeLimits } from '../shared/limits'
+export {
+  setCompressionBackends,
+  getCompressionBackends,
+  type CompressionBackends,
+  type CompressionBackendName,
+  type CompressionBackendReport,
+  type CompressionCodec,
+  type CompressionOptions,
+  type BrotliCompressOptions,
+} from '../shared/compression'
+export {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+  ChecksumError,
+  type WoffErrorCode,
+  type WoffErrorDetails,
+} from '../shared/errors'
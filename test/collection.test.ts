@@ -0,0 +1,219 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import { woff2Encode } from '../src/woff2/encode/encode'
+import {
+  woff2Decode,
+  woff2DecodeCollectionFont,
+  woff2DecodeCollectionFonts,
+} from '../src/woff2/decode/decode'
+import { inspectWoff2 } from '../src/woff2/decode/inspect'
+import { validateWoff2 } from '../src/woff2/decode/validate'
+
+const fixturesPath = join(__dirname, 'fixtures')
+
+interface TableRecord {
+  tag: string
+  checksum: number
+  data: Uint8Array
+}
+
+function tagString(view: DataView, offset: number): string {
+  const tag = view.getUint32(offset)
+  return String.fromCharCode((tag >> 24) & 0xff, (tag >> 16) & 0xff, (tag >> 8) & 0xff, tag & 0xff)
+}
+
+function readFontTables(data: Uint8Array, start: number): TableRecord[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const numTables = view.getUint16(start + 4)
+  const tables: TableRecord[] = []
+  for (let i = 0; i < numTables; i++) {
+    const record = start + 12 + i * 16
+    const offset = view.getUint32(record + 8)
+    const length = view.getUint32(record + 12)
+    tables.push({
+      tag: tagString(view, record),
+      checksum: view.getUint32(record + 4),
+      data: data.subarray(offset, offset + length),
+    })
+  }
+  return tables
+}
+
+function readCollection(data: Uint8Array): TableRecord[][] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  expect(tagString(view, 0)).toBe('ttcf')
+  const numFonts = view.getUint32(8)
+  const fonts: TableRecord[][] = []
+  for (let i = 0; i < numFonts; i++) {
+    fonts.push(readFontTables(data, view.getUint32(12 + i * 4)))
+  }
+  return fonts
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return Buffer.from(a).equals(Buffer.from(b))
+}
+
+// Build a TTC from standalone fonts, sharing byte-identical tables
+function buildCollection(fonts: Uint8Array[]): Uint8Array {
+  const unique: Uint8Array[] = []
+  const fontTables = fonts.map((font) =>
+    readFontTables(font, 0).map((table) => {
+      let index = unique.findIndex((u) => bytesEqual(u, table.data))
+      if (index < 0) {
+        index = unique.length
+        unique.push(table.data)
+      }
+      return { ...table, index }
+    })
+  )
+
+  let offset = 12 + fonts.length * 4
+  const fontOffsets = fontTables.map((tables) => {
+    const start = offset
+    offset += 12 + tables.length * 16
+    return start
+  })
+  const tableOffsets = unique.map((data) => {
+    const start = offset
+    offset += (data.byteLength + 3) & ~3
+    return start
+  })
+
+  const out = new Uint8Array(offset)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, 0x74746366) // 'ttcf'
+  view.setUint32(4, 0x00010000)
+  view.setUint32(8, fonts.length)
+  fontTables.forEach((tables, i) => {
+    const start = fontOffsets[i]
+    view.setUint32(12 + i * 4, start)
+    out.set(fonts[i].subarray(0, 12), start)
+    tables.forEach((table, j) => {
+      const record = start + 12 + j * 16
+      for (let k = 0; k < 4; k++) view.setUint8(record + k, table.tag.charCodeAt(k))
+      view.setUint32(record + 4, table.checksum)
+      view.setUint32(record + 8, tableOffsets[table.index])
+      view.setUint32(record + 12, table.data.byteLength)
+    })
+  })
+  unique.forEach((data, i) => out.set(data, tableOffsets[i]))
+  return out
+}
+
+// Sum of the font as big-endian uint32s, which is 0xB1B0AFBA when checkSumAdjustment is right
+function fontChecksum(data: Uint8Array): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  let sum = 0
+  for (let i = 0; i < data.byteLength; i += 4) {
+    sum = (sum + view.getUint32(i)) >>> 0
+  }
+  return sum
+}
+
+function numGlyphs(tables: TableRecord[]): number {
+  const maxp = tables.find((t) => t.tag === 'maxp')!
+  return (maxp.data[4] << 8) | maxp.data[5]
+}
+
+// Tables rewritten by the WOFF2 round-trip: glyf/loca are re-laid-out,
+// head gets flag bit 11 and a new checkSumAdjustment
+const REWRITTEN = new Set(['glyf', 'loca', 'head', 'DSIG'])
+
+function expectSameFont(decoded: TableRecord[], original: TableRecord[]): void {
+  expect(decoded.map((t) => t.tag)).toEqual(original.map((t) => t.tag).filter((tag) => tag !== 'DSIG'))
+  expect(numGlyphs(decoded)).toBe(numGlyphs(original))
+  for (const table of original) {
+    if (REWRITTEN.has(table.tag)) continue
+    const match = decoded.find((t) => t.tag === table.tag)!
+    expect(bytesEqual(match.data, table.data), `table ${table.tag}`).toBe(true)
+  }
+}
+
+describe('woff2 encode - collections', () => {
+  const ttf = new Uint8Array(readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf')))
+  const otf = new Uint8Array(readFileSync(join(fixturesPath, 'dec-enc-otf.otf')))
+
+  it('round-trips a collection of different fonts', async () => {
+    const ttc = buildCollection([ttf, otf])
+
+    const encoded = woff2Encode(ttc, { quality: 4 })
+    const view = new DataView(encoded.buffer, encoded.byteOffset)
+    expect(view.getUint32(4)).toBe(0x74746366) // flavor 'ttcf'
+
+    const decoded = await woff2Decode(encoded)
+    expect(view.getUint32(16)).toBe(decoded.byteLength) // totalSfntSize
+
+    const fonts = readCollection(decoded)
+    expect(fonts).toHaveLength(2)
+    expectSameFont(fonts[0], readFontTables(ttf, 0))
+    expectSameFont(fonts[1], readFontTables(otf, 0))
+
+    const info = inspectWoff2(encoded)
+    expect(info.collection!.version).toBe(0x00010000)
+    expect(info.collection!.fonts.map((f) => f.flavor)).toEqual([0x00010000, 0x4f54544f])
+    expect(info.collection!.fonts.map((f) => f.tables.length)).toEqual([fonts[0].length, fonts[1].length])
+  })
+
+  it('stores byte-identical tables once', async () => {
+    // Second font differs only in its name table
+    const variant = new Uint8Array(ttf)
+    const name = readFontTables(variant, 0).find((t) => t.tag === 'name')!
+    name.data[name.data.byteLength - 1] ^= 0xff
+
+    const ttfTables = readFontTables(ttf, 0).filter((t) => t.tag !== 'DSIG')
+    const encoded = woff2Encode(buildCollection([ttf, variant]), { quality: 4 })
+    const view = new DataView(encoded.buffer, encoded.byteOffset)
+    expect(view.getUint16(12)).toBe(ttfTables.length + 1) // numTables
+    expect((await validateWoff2(encoded)).findings).toEqual([])
+
+    const fonts = readCollection(await woff2Decode(encoded))
+    expectSameFont(fonts[0], readFontTables(ttf, 0))
+    expectSameFont(fonts[1], readFontTables(variant, 0))
+
+    // Shared glyf is written once and referenced by both fonts
+    const glyf0 = fonts[0].find((t) => t.tag === 'glyf')!
+    const glyf1 = fonts[1].find((t) => t.tag === 'glyf')!
+    expect(glyf1.data.byteOffset).toBe(glyf0.data.byteOffset)
+  })
+})
+
+describe('woff2 decode - collection fonts', () => {
+  const ttf = new Uint8Array(readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf')))
+  const otf = new Uint8Array(readFileSync(join(fixturesPath, 'dec-enc-otf.otf')))
+
+  it('extracts each font as a standalone SFNT', async () => {
+    const encoded = woff2Encode(buildCollection([ttf, otf]), { quality: 4 })
+
+    const fonts = await woff2DecodeCollectionFonts(encoded)
+    expect(fonts).toHaveLength(2)
+    expect(new DataView(fonts[0].buffer).getUint32(0)).toBe(0x00010000)
+    expect(new DataView(fonts[1].buffer).getUint32(0)).toBe(0x4f54544f) // 'OTTO'
+    expectSameFont(readFontTables(fonts[0], 0), readFontTables(ttf, 0))
+    expectSameFont(readFontTables(fonts[1], 0), readFontTables(otf, 0))
+
+    for (const font of fonts) {
+      expect(fontChecksum(font)).toBe(0xb1b0afba)
+    }
+  })
+
+  it('extracts a single font by index', async () => {
+    const encoded = woff2Encode(buildCollection([ttf, otf]), { quality: 4 })
+
+    const all = await woff2DecodeCollectionFonts(encoded)
+    const second = await woff2DecodeCollectionFont(encoded, 1)
+    expect(Buffer.from(second)).toEqual(Buffer.from(all[1]))
+
+    await expect(woff2DecodeCollectionFont(encoded, 2)).rejects.toThrow('out of range')
+  })
+
+  it('treats a single font as a collection of one', async () => {
+    const encoded = woff2Encode(ttf, { quality: 4 })
+
+    const fonts = await woff2DecodeCollectionFonts(encoded)
+    expect(fonts).toHaveLength(1)
+    expect(Buffer.from(fonts[0])).toEqual(Buffer.from(await woff2Decode(encoded)))
+    expect(Buffer.from(await woff2DecodeCollectionFont(encoded, 0))).toEqual(Buffer.from(fonts[0]))
+  })
+})
@@ -0,0 +1,178 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { brotliCompress, brotliDecompressSync, constants, deflateSync, inflateSync } from 'node:zlib'
+import { promisify } from 'node:util'
+import { afterEach, describe, it, expect } from 'vitest'
+import { brotliEncode } from 'brotli-lib/encode'
+import { woffDecode } from '../src/woff/decode'
+import { woffEncode } from '../src/woff/encode'
+import { woff2Decode } from '../src/woff2/decode/decode'
+import { woff2Encode, woff2EncodeAsync } from '../src/woff2/encode/encode'
+import { Woff2DecoderStream } from '../src/woff2/decode/stream'
+import { transcode } from '../src/universal/transcode'
+import {
+  getCompressionBackends,
+  setCompressionBackends,
+  type BrotliCompressOptions,
+  type CompressionBackends,
+} from '../src/shared/compression'
+import { DecompressionError, WoffError } from '../src/shared/errors'
+
+const fixturesPath = join(__dirname, 'fixtures')
+const ttf = new Uint8Array(readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf')))
+const woff2 = new Uint8Array(readFileSync(join(fixturesPath, 'enc-ttf.woff2')))
+
+function bytes(buffer: Buffer): Uint8Array {
+  return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+}
+
+// Backends wrapping node:zlib that record each call
+function recording() {
+  const calls: string[] = []
+  const brotliOptions: BrotliCompressOptions[] = []
+  const backends: CompressionBackends = {
+    inflate: (data) => {
+      calls.push('inflate')
+      return bytes(inflateSync(data))
+    },
+    deflate: (data, level) => {
+      calls.push('deflate')
+      return bytes(deflateSync(data, { level }))
+    },
+    brotliDecompress: async (data) => {
+      calls.push('brotliDecompress')
+      return bytes(brotliDecompressSync(data))
+    },
+    brotliCompress: (data, options) => {
+      calls.push('brotliCompress')
+      brotliOptions.push(options)
+      return brotliEncode(data, { quality: 4 })
+    },
+  }
+  return { calls, brotliOptions, backends }
+}
+
+describe('compression backends', () => {
+  afterEach(() => {
+    setCompressionBackends({
+      inflate: undefined,
+      deflate: undefined,
+      brotliDecompress: undefined,
+      brotliCompress: undefined,
+    })
+  })
+
+  it('reports the probed backends', () => {
+    expect(getCompressionBackends()).toEqual({
+      inflate: 'node-zlib',
+      deflate: 'node-zlib',
+      brotliDecompress: 'node-zlib',
+      brotliCompress: 'node-zlib',
+      brotliCompressSync: 'brotli-lib',
+    })
+  })
+
+  it('reports a registered brotliCompress for both encoders', () => {
+    const { backends } = recording()
+    setCompressionBackends({ brotliCompress: backends.brotliCompress })
+    expect(getCompressionBackends().brotliCompress).toBe('custom')
+    expect(getCompressionBackends().brotliCompressSync).toBe('custom')
+  })
+
+  it('uses per-call backends for WOFF', async () => {
+    const { calls, backends } = recording()
+    const woff = await woffEncode(ttf, { compression: backends })
+    expect(calls.filter((c) => c === 'deflate').length).toBeGreaterThan(0)
+
+    const font = await woffDecode(woff, { compression: backends })
+    expect(calls).toContain('inflate')
+    expect(font).toEqual(await woffDecode(woff))
+  })
+
+  it('uses per-call backends for WOFF2', async () => {
+    const { calls, brotliOptions, backends } = recording()
+    const encoded = woff2Encode(ttf, { quality: 4, compression: backends })
+    expect(brotliOptions).toEqual([{ quality: 4, mode: 'font', lgwin: 22, sizeHint: expect.any(Number) }])
+
+    woff2Encode(ttf, { quality: 4, lgwin: 20, lgblock: 18, mode: 'generic', sizeHint: 1000, compression: backends })
+    expect(brotliOptions[1]).toEqual({ quality: 4, mode: 'generic', lgwin: 20, lgblock: 18, sizeHint: 1000 })
+
+    const font = await woff2Decode(encoded, { compression: backends })
+    expect(calls).toEqual(['brotliCompress', 'brotliCompress', 'brotliDecompress'])
+    expect(font).toEqual(await woff2Decode(encoded))
+  })
+
+  it('registers backends for calls without their own', async () => {
+    const { calls, backends } = recording()
+    setCompressionBackends({ brotliDecompress: backends.brotliDecompress })
+    expect(getCompressionBackends().brotliDecompress).toBe('custom')
+
+    await woff2Decode(woff2)
+    expect(calls).toEqual(['brotliDecompress'])
+
+    setCompressionBackends({ brotliDecompress: undefined })
+    expect(getCompressionBackends().brotliDecompress).toBe('node-zlib')
+    await woff2Decode(woff2)
+    expect(calls).toEqual(['brotliDecompress'])
+  })
+
+  it('prefers per-call backends over registered ones', async () => {
+    setCompressionBackends({
+      inflate: () => {
+        throw new Error('registered backend used')
+      },
+    })
+    const { calls, backends } = recording()
+    const woff = await woffEncode(ttf)
+    await woffDecode(woff, { compression: backends })
+    expect(calls).toContain('inflate')
+  })
+
+  it('rejects output past the expected size', async () => {
+    const oversized = (data: Uint8Array) => {
+      const result = bytes(brotliDecompressSync(data))
+      const padded = new Uint8Array(result.byteLength + 1)
+      padded.set(result)
+      return padded
+    }
+    await expect(woff2Decode(woff2, { compression: { brotliDecompress: oversized } })).rejects.toMatchObject({
+      code: 'DECOMPRESSION_SIZE_MISMATCH',
+    })
+    await expect(woff2Decode(woff2, { compression: { brotliDecompress: oversized } })).rejects.toThrow(
+      DecompressionError
+    )
+  })
+
+  it('rejects async brotliCompress in woff2Encode', async () => {
+    const compress = promisify(brotliCompress)
+    const compression: CompressionBackends = {
+      brotliCompress: async (data, options) =>
+        bytes(await compress(data, { params: { [constants.BROTLI_PARAM_QUALITY]: options.quality } })),
+    }
+    expect(() => woff2Encode(ttf, { quality: 4, compression })).toThrow(WoffError)
+
+    const encoded = await woff2EncodeAsync(ttf, { quality: 4, compression })
+    expect(await woff2Decode(encoded)).toEqual(await woff2Decode(woff2Encode(ttf, { quality: 4 })))
+  })
+
+  it('uses custom backends in Woff2DecoderStream and transcode', async () => {
+    const { calls, backends } = recording()
+    const stream = new Woff2DecoderStream({ compression: backends })
+    const writer = stream.writable.getWriter()
+    writer.write(woff2)
+    writer.close()
+
+    let font: Uint8Array | null = null
+    const reader = stream.readable.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      if (value.type === 'font') font = value.font
+    }
+    expect(font).toEqual(await woff2Decode(woff2))
+
+    await transcode(woff2, { to: 'woff', compression: backends })
+    expect(calls.slice(0, 2)).toEqual(['brotliDecompress', 'brotliDecompress'])
+    expect(calls).toContain('deflate')
+  })
+})
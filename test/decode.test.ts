@@ -1,7 +1,12 @@
 import { readFileSync } from 'node:fs'
 import { join } from 'node:path'
+import { brotliCompressSync, brotliDecompressSync } from 'node:zlib'
 import { describe, it, expect } from 'vitest'
-import { woff2Decode } from '../src/woff2/decode/decode'
+import { woff2Decode, woff2DecodeDetailed } from '../src/woff2/decode/decode'
+import { readHeader } from '../src/woff2/decode/reconstruct'
+import { woff2Encode } from '../src/woff2/encode/encode'
+import { ChecksumError } from '../src/shared/errors'
+import { computeChecksum } from '../src/shared/checksum'
 
 const fixturesPath = join(__dirname, 'fixtures')
 
@@ -42,3 +47,65 @@ describe('decode - real world fonts', () => {
     expect(Buffer.from(result).equals(expected)).toBe(true)
   })
 })
+
+describe('decode - checksum verification', () => {
+  it('accepts the stored checkSumAdjustment of real world fonts', async () => {
+    for (const name of ['og.woff2', 'enc-ttf.woff2', 'enc-otf.woff2']) {
+      const { checksumMismatches } = await woff2DecodeDetailed(readFileSync(join(fixturesPath, name)), {
+        verifyChecksums: 'report',
+      })
+      expect(checksumMismatches).toEqual([])
+    }
+  })
+
+  it('reports a wrong checkSumAdjustment', async () => {
+    // Change the stored value inside the Brotli stream
+    const woff2 = readFileSync(join(fixturesPath, 'enc-ttf.woff2'))
+    const header = readHeader(woff2)
+    const stream = new Uint8Array(brotliDecompressSync(
+      woff2.subarray(header.compressedOffset, header.compressedOffset + header.compressedLength)
+    ))
+    const head = header.tables.find((t) => t.tag === 0x68656164)!
+    const view = new DataView(stream.buffer, stream.byteOffset)
+    view.setUint32(head.srcOffset + 8, view.getUint32(head.srcOffset + 8) + 1)
+    const compressed = brotliCompressSync(stream)
+
+    const encoded = new Uint8Array(header.compressedOffset + compressed.byteLength)
+    encoded.set(woff2.subarray(0, header.compressedOffset))
+    encoded.set(compressed, header.compressedOffset)
+    new DataView(encoded.buffer).setUint32(8, encoded.byteLength)
+    new DataView(encoded.buffer).setUint32(20, compressed.byteLength)
+
+    const { checksumMismatches } = await woff2DecodeDetailed(encoded, { verifyChecksums: 'report' })
+    expect(checksumMismatches).toEqual([expect.objectContaining({ tag: 'head', field: 'checkSumAdjustment' })])
+    await expect(woff2Decode(encoded, { verifyChecksums: 'throw' })).rejects.toThrow(ChecksumError)
+  })
+
+  it('accepts encoder output for fonts not in the decoded layout', async () => {
+    // Lay the tables out in reverse, with a correct checkSumAdjustment
+    const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+    const view = new DataView(original.buffer, original.byteOffset)
+    const numTables = view.getUint16(4)
+    const font = new Uint8Array(original.byteLength)
+    font.set(original.subarray(0, 12 + numTables * 16))
+    const out = new DataView(font.buffer)
+    let offset = 12 + numTables * 16
+    let headOffset = 0
+    for (let i = numTables - 1; i >= 0; i--) {
+      const entry = 12 + i * 16
+      const start = view.getUint32(entry + 8)
+      const length = view.getUint32(entry + 12)
+      font.set(original.subarray(start, start + length), offset)
+      out.setUint32(entry + 8, offset)
+      if (view.getUint32(entry) === 0x68656164) headOffset = offset
+      offset += (length + 3) & ~3
+    }
+    out.setUint32(headOffset + 8, 0)
+    out.setUint32(headOffset + 8, (0xb1b0afba - computeChecksum(font, 0, font.byteLength)) >>> 0)
+
+    const decoded = await woff2Decode(woff2Encode(font, { quality: 2 }), { verifyChecksums: 'throw' })
+    expect(decoded.byteLength).toBe(original.byteLength)
+    const untransformed = woff2Encode(font, { quality: 2, transformGlyf: false })
+    expect((await woff2Decode(untransformed, { verifyChecksums: 'throw' })).byteLength).toBe(original.byteLength)
+  })
+})
@@ -1,8 +1,10 @@
 import { readFileSync } from 'node:fs'
 import { join } from 'node:path'
 import { describe, it, expect } from 'vitest'
-import { woff2Encode } from '../src/woff2/encode/encode'
-import { woff2Decode } from '../src/woff2/decode/decode'
+import { woff2Encode, woff2EncodeAsync, woff2EncodeDetailed } from '../src/woff2/encode/encode'
+import { woff2Decode, woff2DecodeDetailed } from '../src/woff2/decode/decode'
+import { inspectWoff2 } from '../src/woff2/decode/inspect'
+import { validateWoff2 } from '../src/woff2/decode/validate'
 
 const fixturesPath = join(__dirname, 'fixtures')
 
@@ -136,6 +138,25 @@ describe('encode - stability', () => {
     expect(ratio).toBeGreaterThan(0.9)
     expect(ratio).toBeLessThan(1.1)
   })
+
+  it('preserves glyph coordinates', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+    const decoded1 = await woff2Decode(woff2Encode(original, { quality: 4 }))
+    const decoded2 = await woff2Decode(woff2Encode(decoded1, { quality: 4 }))
+
+    // Reconstructed glyf is stable across round-trips
+    const glyf1 = parseTableDirectory(decoded1).get('glyf')!
+    const glyf2 = parseTableDirectory(decoded2).get('glyf')!
+    expect(Buffer.from(decoded2.subarray(glyf2.offset, glyf2.offset + glyf2.length)))
+      .toEqual(Buffer.from(decoded1.subarray(glyf1.offset, glyf1.offset + glyf1.length)))
+
+    // Left side bearings are rebuilt from xMin, so hmtx only matches if coordinates do
+    const origHmtx = parseTableDirectory(original).get('hmtx')!
+    const hmtx = parseTableDirectory(decoded1).get('hmtx')!
+    expect(Buffer.from(decoded1.subarray(hmtx.offset, hmtx.offset + hmtx.length)))
+      .toEqual(Buffer.from(original.subarray(origHmtx.offset, origHmtx.offset + origHmtx.length)))
+  })
 })
 
 describe('encode - spec conformance', () => {
@@ -169,4 +190,335 @@ describe('encode - spec conformance', () => {
     // DSIG should not be in output (encoder removes it)
     expect(tables.has('DSIG')).toBe(false)
   })
+
+  it('stores glyf without loca with the null transform', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+    const font = new Uint8Array(original)
+    const entry = 12 + [...parseTableDirectory(font).keys()].indexOf('loca') * 16
+    font.set([0x6c, 0x6f, 0x63, 0x62], entry) // loca -> locb
+
+    const encoded = woff2Encode(font, { quality: 4 })
+    expect(inspectWoff2(encoded).tables.find((t) => t.tag === 'glyf')!.transformVersion).toBe(3)
+
+    const glyf = parseTableDirectory(font).get('glyf')!
+    const decoded = await woff2Decode(encoded)
+    const decodedGlyf = parseTableDirectory(decoded).get('glyf')!
+    expect(decoded.subarray(decodedGlyf.offset, decodedGlyf.offset + decodedGlyf.length)).toEqual(
+      new Uint8Array(font.subarray(glyf.offset, glyf.offset + glyf.length))
+    )
+  })
+})
+
+describe('encode - transform options', () => {
+  const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+  function transforms(woff2: Uint8Array): Record<string, number> {
+    const { tables } = inspectWoff2(woff2)
+    return Object.fromEntries(tables.filter((t) => ['glyf', 'loca', 'hmtx'].includes(t.tag)).map((t) => [t.tag, t.transformVersion]))
+  }
+
+  it('transforms glyf, loca and hmtx by default', () => {
+    expect(transforms(woff2Encode(original, { quality: 4 }))).toEqual({ glyf: 0, loca: 0, hmtx: 1 })
+  })
+
+  it('stores glyf and loca with the null transform', async () => {
+    const encoded = woff2Encode(original, { quality: 4, transformGlyf: false })
+    // hmtx can only be transformed along with glyf
+    expect(transforms(encoded)).toEqual({ glyf: 3, loca: 3, hmtx: 0 })
+    expect((await validateWoff2(encoded)).findings).toEqual([])
+
+    const decoded = await woff2Decode(encoded, { verifyChecksums: 'throw' })
+    for (const tag of ['glyf', 'loca', 'hmtx']) {
+      const a = parseTableDirectory(original).get(tag)!
+      const b = parseTableDirectory(decoded).get(tag)!
+      expect(decoded.subarray(b.offset, b.offset + b.length)).toEqual(
+        new Uint8Array(original.subarray(a.offset, a.offset + a.length))
+      )
+    }
+  })
+
+  it('decodes null-transformed fonts to the transformed layout', async () => {
+    const transformed = await woff2Decode(woff2Encode(original, { quality: 4 }))
+    const decoded = await woff2Decode(woff2Encode(original, { quality: 4, transformGlyf: false }))
+    const glyf = parseTableDirectory(decoded).get('glyf')!
+    expect(parseTableDirectory(decoded).get('loca')!.offset).toBe(glyf.offset + ((glyf.length + 3) & ~3))
+    expect(decoded).toEqual(transformed)
+  })
+
+  it('leaves hmtx untransformed on request', async () => {
+    const encoded = woff2Encode(original, { quality: 4, transformHmtx: false })
+    expect(transforms(encoded)).toEqual({ glyf: 0, loca: 0, hmtx: 0 })
+    expect(await woff2Decode(encoded)).toEqual(await woff2Decode(woff2Encode(original, { quality: 4 })))
+  })
+})
+
+describe('encode - optimize', () => {
+  const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+  const otf = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+  it('keeps the smallest of each transform and Brotli mode', async () => {
+    const { woff2, attempts } = woff2EncodeDetailed(ttf, { quality: 4, optimize: 'size' })
+    expect(attempts.map((a) => [a.transformGlyf, a.transformHmtx, a.mode])).toEqual([
+      [true, true, 'font'],
+      [true, true, 'generic'],
+      [true, false, 'font'],
+      [true, false, 'generic'],
+      [false, false, 'font'],
+      [false, false, 'generic'],
+    ])
+
+    const chosen = attempts.filter((a) => a.chosen)
+    expect(chosen).toHaveLength(1)
+    expect(chosen[0].length).toBe(woff2.byteLength)
+    expect(Math.min(...attempts.map((a) => a.length!))).toBe(woff2.byteLength)
+    expect(woff2.byteLength).toBeLessThanOrEqual(woff2Encode(ttf, { quality: 4 }).byteLength)
+    expect(await woff2Decode(woff2, { verifyChecksums: 'throw' })).toBeInstanceOf(Uint8Array)
+
+    const optimized = await woff2EncodeAsync(ttf, { quality: 4, optimize: 'size' })
+    expect(optimized.byteLength).toBeLessThanOrEqual((await woff2EncodeAsync(ttf, { quality: 4 })).byteLength)
+  })
+
+  it('tries transforms only where they change the font', () => {
+    const { attempts } = woff2EncodeDetailed(otf, { quality: 4, optimize: 'size' })
+    expect(attempts.map((a) => [a.transformGlyf, a.transformHmtx, a.mode])).toEqual([
+      [false, false, 'font'],
+      [false, false, 'generic'],
+    ])
+
+    const fixed = woff2EncodeDetailed(ttf, { quality: 4, optimize: 'size', transformGlyf: false })
+    expect(fixed.attempts.every((a) => !a.transformGlyf)).toBe(true)
+  })
+
+  it('reports a transform the font cannot take', async () => {
+    // Corrupt the first glyph's contour count so only the null transform works
+    const font = new Uint8Array(ttf)
+    const view = new DataView(font.buffer)
+    const tables = parseTableDirectory(font)
+    const longLoca = view.getInt16(tables.get('head')!.offset + 50) === 1
+    const loca = tables.get('loca')!.offset
+    const glyphOffset = longLoca ? view.getUint32(loca) : view.getUint16(loca) * 2
+    view.setInt16(tables.get('glyf')!.offset + glyphOffset, -5)
+
+    const { woff2, attempts } = woff2EncodeDetailed(font, { quality: 4, optimize: 'size' })
+    expect(attempts.filter((a) => a.error).map((a) => a.transformGlyf)).toEqual([true, true])
+    expect(attempts.find((a) => a.chosen)!.transformGlyf).toBe(false)
+    expect(await woff2Decode(woff2)).toBeInstanceOf(Uint8Array)
+    expect(() => woff2Encode(font, { quality: 4 })).toThrow('Invalid nContours')
+  })
+
+  it('rejects unknown modes', () => {
+    expect(() => woff2Encode(ttf, { optimize: 'speed' as 'size' })).toThrow(
+      expect.objectContaining({ code: 'INVALID_OPTION' })
+    )
+  })
+
+  it('reports the single encoding without optimize', () => {
+    const { woff2, attempts } = woff2EncodeDetailed(ttf, { quality: 4 })
+    expect(attempts).toEqual([
+      { transformGlyf: true, transformHmtx: true, mode: 'font', lgwin: 22, length: woff2.byteLength, chosen: true },
+    ])
+  })
+})
+
+describe('encode - Brotli parameters', () => {
+  const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+  it('compresses with the given window and mode', async () => {
+    const { woff2, attempts } = woff2EncodeDetailed(ttf, { quality: 4, lgwin: 20, mode: 'generic' })
+    expect(attempts).toMatchObject([{ mode: 'generic', lgwin: 20 }])
+    expect(woff2).not.toEqual(woff2Encode(ttf, { quality: 4 }))
+    expect(await woff2Decode(woff2)).toEqual(await woff2Decode(woff2Encode(ttf, { quality: 4 })))
+  })
+
+  it('round-trips font data larger than the window', async () => {
+    const woff2 = woff2Encode(ttf, { quality: 4, lgwin: 16 })
+    expect(await woff2Decode(woff2)).toEqual(await woff2Decode(woff2Encode(ttf, { quality: 4 })))
+  })
+
+  it('reports the window brotli-lib widens to', () => {
+    const { attempts } = woff2EncodeDetailed(ttf, { quality: 4, lgwin: 16 })
+    expect(attempts).toMatchObject([{ lgwin: 19 }])
+  })
+
+  it('tries windows brotli-lib widens to the same size once', () => {
+    const size = (1 << 22) + 1024
+    const font = new Uint8Array(12 + 16 + size)
+    const view = new DataView(font.buffer)
+    view.setUint32(0, 0x00010000)
+    view.setUint16(4, 1)
+    view.setUint32(12, 0x44415441) // 'DATA', all zeros
+    view.setUint32(20, 28)
+    view.setUint32(24, size)
+    const { attempts } = woff2EncodeDetailed(font, { quality: 4, optimize: 'size' })
+    expect(attempts.map((a) => [a.mode, a.lgwin])).toEqual([['font', 23], ['generic', 23]])
+  })
+
+  it('passes lgwin, lgblock and sizeHint to native Brotli', async () => {
+    const encoded = await woff2EncodeAsync(ttf, { quality: 4, lgwin: 16, lgblock: 16, sizeHint: 1 << 20 })
+    expect(await woff2Decode(encoded)).toEqual(await woff2Decode(woff2Encode(ttf, { quality: 4 })))
+  })
+
+  it('keeps explicit parameters fixed with optimize', () => {
+    const { attempts } = woff2EncodeDetailed(ttf, { quality: 4, optimize: 'size', mode: 'font', lgwin: 20 })
+    expect(attempts.every((a) => a.mode === 'font' && a.lgwin === 20)).toBe(true)
+    expect(attempts).toHaveLength(3)
+  })
+
+  it('rejects out of range values', () => {
+    for (const options of [{ lgwin: 25 }, { lgwin: 9 }, { lgblock: 15 }, { lgwin: 20.5 }, { sizeHint: -1 }, { mode: 'woff' as 'font' }]) {
+      expect(() => woff2Encode(ttf, options)).toThrow(expect.objectContaining({ code: 'INVALID_OPTION' }))
+    }
+  })
 })
+
+describe('encode - stats', () => {
+  const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+  it('reports table sizes and their share of the compressed data', () => {
+    const { woff2, stats } = woff2EncodeDetailed(ttf, { quality: 4, stats: true })
+    const { tables } = inspectWoff2(woff2)
+    expect(stats!.tables.map((t) => t.tag)).toEqual(tables.map((t) => t.tag))
+    expect(stats!.compressedLength).toBe(new DataView(woff2.buffer, woff2.byteOffset).getUint32(20))
+
+    const shares = stats!.tables.reduce((sum, t) => sum + t.compressedShare, 0)
+    expect(shares).toBeCloseTo(1)
+    const lengths = stats!.tables.reduce((sum, t) => sum + t.compressedLength, 0)
+    expect(Math.abs(lengths - stats!.compressedLength)).toBeLessThan(stats!.tables.length)
+    expect(stats!.tables.find((t) => t.tag === 'loca')).toMatchObject({ transformLength: 0, compressedLength: 0 })
+  })
+
+  it('reports glyf substreams and the hmtx outcome', () => {
+    const { stats } = woff2EncodeDetailed(ttf, { quality: 4, stats: true })
+    const glyf = stats!.tables.find((t) => t.tag === 'glyf')!
+    const streams = Object.values(glyf.glyfStreams!).reduce((sum, length) => sum + length, 0)
+    // 36-byte transformed glyf header
+    expect(streams + 36).toBe(glyf.transformLength)
+    expect(glyf.glyfStreams!.glyph).toBeGreaterThan(0)
+
+    expect(stats!.tables.find((t) => t.tag === 'hmtx')!.hmtx).toEqual({
+      transformed: true,
+      proportionalLsbRemoved: true,
+      monospaceLsbRemoved: true,
+    })
+  })
+
+  it('reports why hmtx is left untransformed', () => {
+    const hmtx = (options: { transformGlyf?: boolean; transformHmtx?: boolean }) =>
+      woff2EncodeDetailed(ttf, { quality: 2, stats: true, ...options }).stats!.tables.find((t) => t.tag === 'hmtx')!
+    expect(hmtx({ transformHmtx: false }).hmtx).toMatchObject({ transformed: false, reason: 'disabled' })
+    expect(hmtx({ transformGlyf: false })).toMatchObject({
+      transformVersion: 0,
+      hmtx: { transformed: false, reason: 'glyf-untransformed' },
+    })
+    expect(hmtx({ transformGlyf: false }).glyfStreams).toBeUndefined()
+  })
+
+  it('leaves stats out unless asked', () => {
+    expect(woff2EncodeDetailed(ttf, { quality: 2 }).stats).toBeUndefined()
+  })
+})
+
+describe('encode - extended metadata', () => {
+  const metadata =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<metadata version="1.0">\n' +
+    '  <uniqueid id="com.example.font.regular.2026"/>\n' +
+    '  <vendor name="Exämple Foundry" url="https://example.com"/>\n' +
+    '</metadata>\n'
+
+  it('round-trips metadata XML', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+    const encoded = woff2Encode(original, { quality: 4, metadata })
+    const result = await woff2DecodeDetailed(encoded)
+
+    expect(result.metadata).toBe(metadata)
+    expect(getNumGlyphs(result.font)).toBe(getNumGlyphs(original))
+  })
+
+  it('places metadata on a 4-byte boundary at the end of the file', () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = woff2Encode(original, { quality: 4, metadata })
+    const view = new DataView(encoded.buffer, encoded.byteOffset)
+    const metaOffset = view.getUint32(28)
+    const metaLength = view.getUint32(32)
+    const metaOrigLength = view.getUint32(36)
+
+    expect(metaOffset % 4).toBe(0)
+    expect(metaOffset + metaLength).toBe(encoded.byteLength)
+    expect(view.getUint32(8)).toBe(encoded.byteLength)
+    expect(metaOrigLength).toBe(new TextEncoder().encode(metadata).byteLength)
+  })
+
+  it('returns null metadata when absent', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = woff2Encode(original, { quality: 4 })
+    const result = await woff2DecodeDetailed(encoded)
+
+    expect(result.metadata).toBeNull()
+    expect(Buffer.from(result.font).equals(Buffer.from(await woff2Decode(encoded)))).toBe(true)
+  })
+})
+
+describe('encode - private data', () => {
+  const privateData = new Uint8Array([0xde, 0xad, 0xbe, 0xef, 0x01, 0x02, 0x03])
+
+  it('round-trips private data after metadata', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = woff2Encode(original, { quality: 4, metadata: '<metadata version="1.0"/>', privateData })
+    const view = new DataView(encoded.buffer, encoded.byteOffset)
+    const metaOffset = view.getUint32(28)
+    const metaLength = view.getUint32(32)
+    const privOffset = view.getUint32(40)
+
+    expect(privOffset % 4).toBe(0)
+    expect(privOffset).toBeGreaterThanOrEqual(metaOffset + metaLength)
+    expect(privOffset + privateData.byteLength).toBe(encoded.byteLength)
+
+    const result = await woff2DecodeDetailed(encoded)
+    expect(result.metadata).toBe('<metadata version="1.0"/>')
+    expect(result.privateData).toEqual(privateData)
+  })
+
+  it('round-trips private data without metadata', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = woff2Encode(original, { quality: 4, privateData })
+    const result = await woff2DecodeDetailed(encoded)
+
+    expect(result.metadata).toBeNull()
+    expect(result.privateData).toEqual(privateData)
+    expect(new DataView(encoded.buffer, encoded.byteOffset).getUint32(40) % 4).toBe(0)
+  })
+})
+
+describe('encode - async', () => {
+  it('round-trips with native Brotli', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+    const encoded = await woff2EncodeAsync(original, { quality: 4, metadata: '<metadata version="1.0"/>' })
+    const result = await woff2DecodeDetailed(encoded, { verifyChecksums: 'throw' })
+
+    expect(result.metadata).toBe('<metadata version="1.0"/>')
+    expect(Buffer.from(result.font).equals(await woff2Decode(woff2Encode(original, { quality: 4 })))).toBe(true)
+  })
+
+  it('writes the same container as woff2Encode', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+    const options = { quality: 2, privateData: new Uint8Array([1, 2, 3]), majorVersion: 3 }
+
+    const sync = woff2Encode(original, options)
+    const encoded = await woff2EncodeAsync(original, options)
+
+    // flavor, length (ignored), numTables, reserved, totalSfntSize
+    expect(encoded.subarray(4, 8)).toEqual(sync.subarray(4, 8))
+    expect(encoded.subarray(12, 20)).toEqual(sync.subarray(12, 20))
+    // majorVersion, minorVersion
+    expect(encoded.subarray(24, 28)).toEqual(sync.subarray(24, 28))
+    expect(encoded.subarray(encoded.byteLength - 3)).toEqual(new Uint8Array([1, 2, 3]))
+  })
+})
+
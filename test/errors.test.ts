@@ -0,0 +1,161 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { brotliDecode } from 'brotli-lib/decode'
+import { brotliEncode } from 'brotli-lib/encode'
+import { describe, it, expect } from 'vitest'
+import { woff2Decode } from '../src/woff2/decode/decode'
+import { readHeader } from '../src/woff2/decode/reconstruct'
+import { woff2Encode } from '../src/woff2/encode/encode'
+import { woffDecode } from '../src/woff/decode'
+import { woffEncode } from '../src/woff/encode'
+import { parseSfnt } from '../src/woff2/encode/sfnt'
+import { parseMetadata } from '../src/shared/metadata'
+import { transcode } from '../src/universal/transcode'
+import {
+  WoffError,
+  WoffFormatError,
+  DecompressionError,
+  GlyfReconstructError,
+  SfntError,
+  MetadataError,
+} from '../src/shared/errors'
+import { TAG_GLYF } from '../src/shared/known-tags'
+
+const fixturesPath = join(__dirname, 'fixtures')
+const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+const encoded = woff2Encode(ttf, { quality: 2 })
+
+async function caught(fn: () => unknown): Promise<WoffError> {
+  try {
+    await fn()
+  } catch (err) {
+    expect(err).toBeInstanceOf(WoffError)
+    return err as WoffError
+  }
+  throw new Error('Expected an error')
+}
+
+// Re-encode the Brotli stream of a single-font WOFF2 file after editing it
+function rewriteStream(edit: (stream: Uint8Array, glyfOffset: number) => void): Uint8Array {
+  const header = readHeader(encoded)
+  const stream = brotliDecode(encoded.subarray(header.compressedOffset, header.compressedOffset + header.compressedLength))
+  edit(stream, header.tables.find((t) => t.tag === TAG_GLYF)!.srcOffset)
+
+  const compressed = brotliEncode(stream, { quality: 2 })
+  const length = (header.compressedOffset + compressed.byteLength + 3) & ~3
+  const output = new Uint8Array(length)
+  output.set(encoded.subarray(0, header.compressedOffset))
+  output.set(compressed, header.compressedOffset)
+  const view = new DataView(output.buffer)
+  view.setUint32(8, length)
+  view.setUint32(20, compressed.byteLength)
+  return output
+}
+
+describe('WOFF2 decode errors', () => {
+  it('reports a bad signature', async () => {
+    const err = await caught(() => woff2Decode(ttf))
+    expect(err).toBeInstanceOf(WoffFormatError)
+    expect(err.code).toBe('BAD_SIGNATURE')
+    expect(err.offset).toBe(0)
+  })
+
+  it('reports truncated headers with a reason', async () => {
+    const err = await caught(() => readHeader(encoded.subarray(0, 20)))
+    expect(err).toBeInstanceOf(WoffFormatError)
+    expect(err.code).toBe('TRUNCATED')
+    expect(err.offset).toBe(20)
+  })
+
+  it('reports length field mismatches', async () => {
+    const copy = new Uint8Array(encoded)
+    new DataView(copy.buffer).setUint32(8, copy.byteLength + 4)
+    const err = await caught(() => woff2Decode(copy))
+    expect(err.code).toBe('INVALID_HEADER')
+    expect(err.offset).toBe(8)
+  })
+
+  it('reports corrupt Brotli data', async () => {
+    const header = readHeader(encoded)
+    const copy = new Uint8Array(encoded)
+    copy.fill(0xff, header.compressedOffset, header.compressedOffset + 32)
+    const err = await caught(() => woff2Decode(copy))
+    expect(err).toBeInstanceOf(DecompressionError)
+    expect(err.offset).toBe(header.compressedOffset)
+  })
+
+  it('reports the glyph that failed to reconstruct', async () => {
+    let emptyGlyph = -1
+    const corrupt = rewriteStream((stream, glyfOffset) => {
+      const view = new DataView(stream.buffer, stream.byteOffset + glyfOffset)
+      const numGlyphs = view.getUint16(4)
+      const streamSizes = Array.from({ length: 7 }, (_, i) => view.getUint32(8 + i * 4))
+      emptyGlyph = Array.from({ length: numGlyphs }, (_, i) => view.getInt16(36 + i * 2)).indexOf(0)
+      // Set the empty glyph's bit in the bbox bitmap
+      const bboxBitmap = 36 + streamSizes.slice(0, 5).reduce((a, b) => a + b, 0)
+      stream[glyfOffset + bboxBitmap + (emptyGlyph >> 3)] |= 0x80 >> (emptyGlyph & 7)
+    })
+    expect(emptyGlyph).toBeGreaterThan(0)
+
+    const err = await caught(() => woff2Decode(corrupt))
+    expect(err).toBeInstanceOf(GlyfReconstructError)
+    expect(err.code).toBe('GLYF_RECONSTRUCT_FAILED')
+    expect(err.tag).toBe('glyf')
+    expect(err.glyphId).toBe(emptyGlyph)
+  })
+
+  it('reports truncated glyph streams with the glyph id', async () => {
+    const corrupt = rewriteStream((stream, glyfOffset) => {
+      // Shrink the glyph stream so simple glyph coordinates run past its end
+      const view = new DataView(stream.buffer, stream.byteOffset + glyfOffset)
+      view.setUint32(20, 0)
+    })
+    const err = await caught(() => woff2Decode(corrupt))
+    expect(err.code).toBe('GLYF_RECONSTRUCT_FAILED')
+    expect(err.glyphId).toBeTypeOf('number')
+    expect(err.cause).toBeInstanceOf(WoffFormatError)
+  })
+})
+
+describe('WOFF decode errors', () => {
+  it('reports signature and bounds problems', async () => {
+    expect((await caught(() => woffDecode(encoded))).code).toBe('BAD_SIGNATURE')
+
+    const woff = await woffEncode(ttf)
+    const view = new DataView(woff.buffer, woff.byteOffset)
+    view.setUint32(44 + 4, woff.byteLength)
+    const err = await caught(() => woffDecode(woff))
+    expect(err.code).toBe('OUT_OF_BOUNDS')
+    expect(err.offset).toBe(woff.byteLength)
+    expect(err.tag).toBeTypeOf('string')
+  })
+
+  it('reports table size mismatches with the tag', async () => {
+    const woff = await woffEncode(ttf)
+    const view = new DataView(woff.buffer, woff.byteOffset)
+    // First table is compressed; claim a larger original size
+    view.setUint32(44 + 12, view.getUint32(44 + 12) + 1)
+    const err = await caught(() => woffDecode(woff))
+    expect(err).toBeInstanceOf(DecompressionError)
+    expect(err.code).toBe('DECOMPRESSION_SIZE_MISMATCH')
+    expect(err.tag).toBe(String.fromCharCode(...woff.subarray(44, 48)))
+  })
+})
+
+describe('other errors', () => {
+  it('reports malformed SFNT input', async () => {
+    const err = await caught(() => parseSfnt(new Uint8Array(8)))
+    expect(err).toBeInstanceOf(SfntError)
+    expect(err.code).toBe('INVALID_SFNT')
+  })
+
+  it('reports invalid metadata', async () => {
+    const err = await caught(() => parseMetadata('<metadata version="1.0">'))
+    expect(err).toBeInstanceOf(MetadataError)
+    expect(err.code).toBe('INVALID_METADATA')
+  })
+
+  it('reports unsupported formats', async () => {
+    expect((await caught(() => transcode(new Uint8Array(16), { to: 'woff2' }))).code).toBe('UNSUPPORTED_FORMAT')
+  })
+})
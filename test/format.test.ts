@@ -0,0 +1,58 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import { detectFontFormat } from '../src/shared/format'
+import { decodeAny } from '../src/universal/decode'
+import { woffEncode } from '../src/woff/encode'
+
+const fixturesPath = join(__dirname, 'fixtures')
+
+function signature(tag: string): Uint8Array {
+  return new Uint8Array([...tag].map((c) => c.charCodeAt(0)).concat(0, 0, 0, 0))
+}
+
+describe('detectFontFormat', () => {
+  it('recognizes container signatures', () => {
+    expect(detectFontFormat(signature('wOFF'))).toBe('woff')
+    expect(detectFontFormat(signature('wOF2'))).toBe('woff2')
+    expect(detectFontFormat(new Uint8Array([0, 1, 0, 0]))).toBe('ttf')
+    expect(detectFontFormat(signature('true'))).toBe('ttf')
+    expect(detectFontFormat(signature('OTTO'))).toBe('otf')
+    expect(detectFontFormat(signature('typ1'))).toBe('type1')
+    expect(detectFontFormat(signature('ttcf'))).toBe('ttc')
+  })
+
+  it('returns null for unknown or short input', () => {
+    expect(detectFontFormat(signature('GIF8'))).toBeNull()
+    expect(detectFontFormat(new Uint8Array([0, 1, 0]))).toBeNull()
+  })
+
+  it('detects fixtures', () => {
+    expect(detectFontFormat(readFileSync(join(fixturesPath, 'enc-ttf.woff2')))).toBe('woff2')
+    expect(detectFontFormat(readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf')))).toBe('ttf')
+    expect(detectFontFormat(readFileSync(join(fixturesPath, 'dec-enc-otf.otf')))).toBe('otf')
+  })
+})
+
+describe('decodeAny', () => {
+  it('decodes WOFF2', async () => {
+    const input = readFileSync(join(fixturesPath, 'enc-ttf.woff2'))
+    const expected = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+    expect(Buffer.from(await decodeAny(input)).equals(expected)).toBe(true)
+  })
+
+  it('decodes WOFF', async () => {
+    const ttf = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+    const decoded = await decodeAny(await woffEncode(ttf))
+    expect(Buffer.from(decoded).subarray(0, 4).toString('latin1')).toBe('OTTO')
+  })
+
+  it('passes SFNT input through untouched', async () => {
+    const ttf = new Uint8Array(readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf')))
+    expect(await decodeAny(ttf)).toBe(ttf)
+  })
+
+  it('rejects unknown formats', async () => {
+    await expect(decodeAny(signature('GIF8'))).rejects.toThrow('Unrecognized font format')
+  })
+})
@@ -0,0 +1,113 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import { inspectWoff2 } from '../src/woff2/decode/inspect'
+import { inspectWoff } from '../src/woff/inspect'
+import { woff2Encode } from '../src/woff2/encode/encode'
+import { woffEncode } from '../src/woff/encode'
+
+const fixturesPath = join(__dirname, 'fixtures')
+
+function sfntTableLengths(data: Uint8Array): Map<string, number> {
+  const view = new DataView(data.buffer, data.byteOffset)
+  const numTables = view.getUint16(4)
+  const lengths = new Map<string, number>()
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16
+    const tag = String.fromCharCode(...data.subarray(record, record + 4))
+    lengths.set(tag, view.getUint32(record + 12))
+  }
+  return lengths
+}
+
+describe('inspectWoff2', () => {
+  it('reads header fields and table directory', () => {
+    const input = readFileSync(join(fixturesPath, 'enc-ttf.woff2'))
+    const expected = sfntTableLengths(readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf')))
+
+    const info = inspectWoff2(input)
+
+    expect(info.flavor).toBe(0x00010000)
+    expect(info.length).toBe(input.byteLength)
+    expect(info.numTables).toBe(expected.size)
+    expect(info.tables).toHaveLength(expected.size)
+    expect(info.collection).toBeNull()
+
+    for (const table of info.tables) {
+      if (table.tag !== 'glyf' && table.tag !== 'loca') {
+        expect(table.origLength, table.tag).toBe(expected.get(table.tag))
+      }
+    }
+
+    const glyf = info.tables.find((t) => t.tag === 'glyf')!
+    expect(glyf.transformVersion).toBe(0)
+    expect(glyf.transformed).toBe(true)
+    expect(glyf.transformLength).toBeLessThan(glyf.origLength)
+
+    const loca = info.tables.find((t) => t.tag === 'loca')!
+    expect(loca.transformed).toBe(true)
+    expect(loca.transformLength).toBe(0)
+
+    const cmap = info.tables.find((t) => t.tag === 'cmap')!
+    expect(cmap.transformed).toBe(false)
+    expect(cmap.transformLength).toBe(cmap.origLength)
+  })
+
+  it('reports metadata and private data locations', () => {
+    const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+    const metadata = '<?xml version="1.0" encoding="UTF-8"?><metadata version="1.0"/>'
+    const privateData = new Uint8Array([1, 2, 3, 4, 5])
+
+    const encoded = woff2Encode(ttf, { quality: 2, metadata, privateData })
+    const info = inspectWoff2(encoded)
+
+    expect(info.metadata).not.toBeNull()
+    expect(info.metadata!.origLength).toBe(new TextEncoder().encode(metadata).byteLength)
+    expect(info.metadata!.offset % 4).toBe(0)
+    expect(info.privateData).toEqual({ offset: encoded.byteLength - 5, length: 5 })
+  })
+
+  it('rejects non-WOFF2 input', () => {
+    expect(() => inspectWoff2(readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf')))).toThrow()
+  })
+})
+
+describe('inspectWoff', () => {
+  it('reads header fields and table directory', async () => {
+    const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+    const expected = sfntTableLengths(ttf)
+
+    const encoded = await woffEncode(ttf)
+    const info = inspectWoff(encoded)
+
+    expect(info.flavor).toBe(0x00010000)
+    expect(info.length).toBe(encoded.byteLength)
+    expect(info.numTables).toBe(expected.size)
+    expect(info.totalSfntSize).toBeGreaterThanOrEqual(ttf.byteLength - 3)
+    expect(info.metadata).toBeNull()
+    expect(info.privateData).toBeNull()
+
+    for (const table of info.tables) {
+      expect(table.origLength, table.tag).toBe(expected.get(table.tag))
+      expect(table.compressed).toBe(table.compLength < table.origLength)
+    }
+    expect(info.totalCompressedSize).toBe(info.tables.reduce((sum, t) => sum + t.compLength, 0))
+    expect(info.tables.find((t) => t.tag === 'glyf')!.compressed).toBe(true)
+  })
+
+  it('reports metadata and private data locations', async () => {
+    const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+    const encoded = await woffEncode(ttf, {
+      metadata: '<?xml version="1.0" encoding="UTF-8"?><metadata version="1.0"/>',
+      privateData: new Uint8Array(8),
+    })
+
+    const info = inspectWoff(encoded)
+    expect(info.metadata).not.toBeNull()
+    expect(info.privateData).toEqual({ offset: encoded.byteLength - 8, length: 8 })
+  })
+
+  it('rejects non-WOFF input', () => {
+    expect(() => inspectWoff(readFileSync(join(fixturesPath, 'enc-ttf.woff2')))).toThrow('Invalid WOFF signature')
+  })
+})
@@ -0,0 +1,104 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { brotliCompressSync } from 'node:zlib'
+import { describe, it, expect, vi } from 'vitest'
+import { woff2Decode, woff2DecodeCollectionFonts } from '../src/woff2/decode/decode'
+import { woffDecode } from '../src/woff/decode'
+import { woffEncode } from '../src/woff/encode'
+import { WoffError } from '../src/shared/errors'
+
+const fixturesPath = join(__dirname, 'fixtures')
+const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+const woff2 = readFileSync(join(fixturesPath, 'enc-ttf.woff2'))
+
+async function errorCode(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise
+  } catch (err) {
+    expect(err).toBeInstanceOf(WoffError)
+    return (err as WoffError).code
+  }
+  return 'none'
+}
+
+describe('decode limits - WOFF2', () => {
+  it('decodes within generous limits', async () => {
+    const font = await woff2Decode(woff2, {
+      maxOutputSize: 1 << 20,
+      maxTables: 32,
+      maxGlyphs: 5000,
+      maxCompressionRatio: 10,
+    })
+    expect(font.byteLength).toBe(ttf.byteLength)
+  })
+
+  it('rejects input over each limit', async () => {
+    expect(await errorCode(woff2Decode(woff2, { maxOutputSize: 100_000 }))).toBe('LIMIT_EXCEEDED')
+    expect(await errorCode(woff2Decode(woff2, { maxTables: 4 }))).toBe('LIMIT_EXCEEDED')
+    expect(await errorCode(woff2Decode(woff2, { maxGlyphs: 100 }))).toBe('LIMIT_EXCEEDED')
+    expect(await errorCode(woff2Decode(woff2, { maxCompressionRatio: 1.5 }))).toBe('LIMIT_EXCEEDED')
+    expect(await errorCode(woff2DecodeCollectionFonts(woff2, { maxTables: 4 }))).toBe('LIMIT_EXCEEDED')
+  })
+
+  it('reports the header field that exceeded a limit', async () => {
+    await expect(woff2Decode(woff2, { maxTables: 4 })).rejects.toMatchObject({ code: 'LIMIT_EXCEEDED', offset: 12 })
+  })
+})
+
+describe('decode limits - brotli-lib', () => {
+  // Load the WOFF2 decoder as outside Node, where neither native nor browser
+  // Brotli is available (Node has no Brotli DecompressionStream)
+  async function loadWithoutNative<T>(load: () => Promise<T>): Promise<T> {
+    const versions = Object.getOwnPropertyDescriptor(process, 'versions')!
+    Object.defineProperty(process, 'versions', { ...versions, value: { ...process.versions, node: undefined } })
+    try {
+      vi.resetModules()
+      return await load()
+    } finally {
+      Object.defineProperty(process, 'versions', versions)
+    }
+  }
+
+  it('never inflates a Brotli bomb past maxOutputSize', async () => {
+    const { decompress } = await loadWithoutNative(() => import('../src/woff2/decode/brotli'))
+    const { getCompressionBackends } = await import('../src/shared/compression')
+    expect(getCompressionBackends().brotliDecompress).toBe('brotli-lib')
+
+    const bomb = new Uint8Array(brotliCompressSync(new Uint8Array(16 << 20)))
+    expect((await decompress(bomb, 1000)).byteLength).toBe(1000)
+  })
+
+  it('decodes fonts within their declared size', async () => {
+    const decode = await loadWithoutNative(() => import('../src/woff2/decode/decode'))
+    expect(await decode.woff2Decode(woff2, { maxOutputSize: 1 << 20 })).toEqual(await woff2Decode(woff2))
+  })
+})
+
+describe('decode limits - WOFF', () => {
+  it('rejects input over each limit', async () => {
+    const woff = await woffEncode(ttf)
+    expect((await woffDecode(woff, { maxOutputSize: ttf.byteLength })).byteLength).toBe(ttf.byteLength)
+    expect(await errorCode(woffDecode(woff, { maxOutputSize: ttf.byteLength - 1 }))).toBe('LIMIT_EXCEEDED')
+    expect(await errorCode(woffDecode(woff, { maxTables: 4 }))).toBe('LIMIT_EXCEEDED')
+    expect(await errorCode(woffDecode(woff, { maxGlyphs: 100 }))).toBe('LIMIT_EXCEEDED')
+    expect(await errorCode(woffDecode(woff, { maxCompressionRatio: 1.5 }))).toBe('LIMIT_EXCEEDED')
+  })
+
+  it('ignores totalSfntSize when sizing the output', async () => {
+    const woff = await woffEncode(ttf)
+    new DataView(woff.buffer, woff.byteOffset).setUint32(16, 0x7fffffff)
+    expect((await woffDecode(woff, { maxOutputSize: ttf.byteLength })).byteLength).toBe(ttf.byteLength)
+  })
+
+  it('stops inflating at origLength', async () => {
+    const woff = await woffEncode(ttf)
+    const view = new DataView(woff.buffer, woff.byteOffset)
+    // First table is compressed; claim it is smaller than it inflates to
+    view.setUint32(44 + 12, view.getUint32(44 + 8) + 1)
+
+    await expect(woffDecode(woff)).rejects.toMatchObject({
+      code: 'DECOMPRESSION_SIZE_MISMATCH',
+      offset: view.getUint32(44 + 4),
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import {
+  parseMetadata,
+  serializeMetadata,
+  validateMetadata,
+  type WoffMetadata,
+} from '../src/shared/metadata'
+import { woffEncode } from '../src/woff/encode'
+import { woffDecodeDetailed } from '../src/woff/decode'
+import { woff2Encode } from '../src/woff2/encode/encode'
+import { woff2DecodeDetailed } from '../src/woff2/decode/decode'
+
+const fixturesPath = join(__dirname, 'fixtures')
+
+const fullMetadata: WoffMetadata = {
+  version: '1.0',
+  uniqueId: 'com.example.sans.regular.2026',
+  vendor: { name: 'Example & Sons', url: 'https://example.com', dir: 'ltr' },
+  credits: [
+    { name: 'Jane Doe', role: 'Designer', url: 'https://example.com/jane' },
+    { name: 'أحمد', role: 'Engineer', dir: 'rtl' },
+  ],
+  description: {
+    url: 'https://example.com/sans',
+    text: [
+      { lang: 'en', content: ['A sans serif for ', { type: 'span', class: 'em', content: ['"screens"'] }, '.'] },
+      { lang: 'de', content: ['Eine Grotesk <für> Bildschirme'] },
+    ],
+  },
+  license: {
+    url: 'https://example.com/license',
+    id: 'EX-1',
+    text: [{ lang: 'en', content: ['Licensed for web use'] }],
+  },
+  copyright: { text: [{ content: ['© 2026 Example'] }] },
+  trademark: { text: [{ content: ['Example Sans is a trademark of Example'] }] },
+  licensee: { name: 'Acme Corp' },
+  extensions: [
+    {
+      id: 'com.example.build',
+      names: [{ lang: 'en', content: ['Build info'] }],
+      items: [
+        {
+          id: 'commit',
+          names: [{ content: ['Commit'] }],
+          values: [{ content: ['abc123'] }],
+        },
+      ],
+    },
+  ],
+}
+
+describe('metadata - object model', () => {
+  it('round-trips every element through XML', () => {
+    const xml = serializeMetadata(fullMetadata)
+    expect(parseMetadata(xml)).toEqual(fullMetadata)
+  })
+
+  it('escapes markup characters', () => {
+    const xml = serializeMetadata(fullMetadata)
+    expect(xml).toContain('name="Example &amp; Sons"')
+    expect(xml).toContain('Eine Grotesk &lt;für&gt; Bildschirme')
+  })
+
+  it('parses hand-written XML with comments, CDATA and entities', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- font metadata -->
+<metadata version="1.0">
+  <uniqueid id="x&#x41;y"/>
+  <license url='https://example.com'>
+    <text xml:lang="en"><![CDATA[<b>raw</b>]]> &amp; more</text>
+  </license>
+</metadata>`
+    expect(parseMetadata(xml)).toEqual({
+      version: '1.0',
+      uniqueId: 'xAy',
+      license: { url: 'https://example.com', text: [{ lang: 'en', content: ['<b>raw</b> & more'] }] },
+    })
+  })
+})
+
+describe('metadata - schema validation', () => {
+  it('accepts a conforming object', () => {
+    expect(validateMetadata(fullMetadata)).toEqual([])
+  })
+
+  it('reports every problem in untyped input', () => {
+    const config = JSON.parse(`{
+      "vendor": { "url": "https://example.com" },
+      "credits": [],
+      "copyright": { "text": [] },
+      "licensee": { "name": "Acme", "dir": "up" }
+    }`)
+    expect(validateMetadata(config)).toEqual([
+      'vendor.name must be a non-empty string',
+      'credits must contain at least one entry',
+      'copyright.text must contain at least one entry',
+      'licensee.dir must be "ltr" or "rtl"',
+    ])
+    expect(() => serializeMetadata(config)).toThrow('Invalid WOFF metadata')
+  })
+
+  it('rejects XML that does not conform to the schema', () => {
+    expect(() => parseMetadata('<metadata version="1.0"><foo/></metadata>')).toThrow('unknown element <foo>')
+    expect(() => parseMetadata('<metadata version="2.0"/>')).toThrow('version must be "1.0"')
+    expect(() => parseMetadata('<metadata version="1.0"><vendor url="x"/></metadata>')).toThrow(
+      '<vendor> requires a "name" attribute'
+    )
+    expect(() =>
+      parseMetadata('<metadata version="1.0"><uniqueid id="a"/><uniqueid id="b"/></metadata>')
+    ).toThrow('may appear only once')
+    expect(() => parseMetadata('<metadata version="1.0"><copyright/></metadata>')).toThrow(
+      'requires at least one <text>'
+    )
+    expect(() => parseMetadata('<metadata version="1.0">')).toThrow('Unclosed element')
+  })
+})
+
+describe('metadata - container integration', () => {
+  it('encodes the object model into WOFF', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = await woffEncode(original, { metadata: fullMetadata })
+    const result = await woffDecodeDetailed(encoded)
+
+    expect(parseMetadata(result.metadata!)).toEqual(fullMetadata)
+  })
+
+  it('encodes the object model into WOFF2', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = woff2Encode(original, { quality: 4, metadata: fullMetadata })
+    const result = await woff2DecodeDetailed(encoded)
+
+    expect(parseMetadata(result.metadata!)).toEqual(fullMetadata)
+  })
+})
@@ -0,0 +1,172 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import { sanitize } from '../src/universal/sanitize'
+import { woffDecodeDetailed } from '../src/woff/decode'
+import { woffEncode } from '../src/woff/encode'
+import type { SanitizeReport } from '../src/universal/sanitize'
+
+const fixturesPath = join(__dirname, 'fixtures')
+const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+const otf = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+// Table directory records by tag, with the file offset of each record
+function directory(data: Uint8Array): Map<string, { entry: number; offset: number; length: number }> {
+  const view = new DataView(data.buffer, data.byteOffset)
+  const tables = new Map<string, { entry: number; offset: number; length: number }>()
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const entry = 12 + i * 16
+    const tag = String.fromCharCode(...data.subarray(entry, entry + 4))
+    tables.set(tag, { entry, offset: view.getUint32(entry + 8), length: view.getUint32(entry + 12) })
+  }
+  return tables
+}
+
+function mutate(font: Uint8Array, fn: (data: Uint8Array, view: DataView) => void): Uint8Array {
+  const copy = new Uint8Array(font)
+  fn(copy, new DataView(copy.buffer))
+  return copy
+}
+
+function errorCodes(report: SanitizeReport): string[] {
+  return report.findings.filter((f) => f.severity === 'error').map((f) => f.code)
+}
+
+describe('sanitize', () => {
+  it('passes valid TrueType and CFF fonts through unchanged', () => {
+    for (const font of [ttf, otf]) {
+      const report = sanitize(font)
+      expect(report.findings).toEqual([])
+      expect(report.valid).toBe(true)
+      expect(report.dropped).toEqual([])
+
+      // Tables are rewritten in tag order; head differs only in checkSumAdjustment
+      const before = directory(font)
+      const after = directory(report.font!)
+      expect([...after.keys()]).toEqual([...before.keys()])
+      for (const [tag, { offset, length }] of after) {
+        const original = before.get(tag)!
+        const data = report.font!.subarray(offset, offset + length)
+        const expected = font.subarray(original.offset, original.offset + original.length)
+        if (tag === 'head') {
+          expect(Buffer.from(data.subarray(12)).equals(expected.subarray(12))).toBe(true)
+        } else {
+          expect(Buffer.from(data).equals(expected)).toBe(true)
+        }
+      }
+    }
+  })
+
+  it('writes fonts with valid checksums', async () => {
+    const report = sanitize(ttf)
+    const { checksumMismatches } = await woffDecodeDetailed(await woffEncode(report.font!), { verifyChecksums: 'report' })
+    expect(checksumMismatches).toEqual([])
+  })
+
+  it('drops optional tables that extend past the end of the file', () => {
+    const gdef = directory(ttf).get('GDEF')!
+    const report = sanitize(mutate(ttf, (_, view) => view.setUint32(gdef.entry + 12, ttf.byteLength)))
+
+    expect(report.valid).toBe(true)
+    expect(report.dropped).toEqual(['GDEF'])
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'TABLE_DROPPED', tag: 'GDEF' }))
+    expect(directory(report.font!).has('GDEF')).toBe(false)
+  })
+
+  it('rejects missing required tables', () => {
+    const cmap = directory(ttf).get('cmap')!
+    const report = sanitize(mutate(ttf, (data) => data.set([0x63, 0x6d, 0x61, 0x71], cmap.entry))) // cmap -> cmaq
+
+    expect(report.font).toBeNull()
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'MISSING_TABLE', tag: 'cmap' }))
+  })
+
+  it('rejects inconsistent maxp, hhea and hmtx', () => {
+    const { hhea } = Object.fromEntries(directory(ttf))
+    const report = sanitize(mutate(ttf, (_, view) => view.setUint16(hhea.offset + 34, 0xffff)))
+    expect(errorCodes(report)).toEqual(['INVALID_TABLE'])
+    expect(report.findings[0]).toMatchObject({ tag: 'hhea', offset: hhea.offset + 34 })
+  })
+
+  it('rejects non-monotonic loca', () => {
+    const { loca } = Object.fromEntries(directory(ttf))
+    const report = sanitize(mutate(ttf, (_, view) => view.setUint32(loca.offset + 8, 0xffffff)))
+    expect(errorCodes(report)).toContain('INVALID_LOCA')
+  })
+
+  it('rejects glyphs that overrun their loca entry', () => {
+    const { glyf, loca } = Object.fromEntries(directory(ttf))
+    const font = mutate(ttf, (_, view) => {
+      // Find the first simple glyph and claim 2000 contours
+      for (let i = 0; ; i++) {
+        const start = view.getUint32(loca.offset + i * 4)
+        if (view.getUint32(loca.offset + (i + 1) * 4) > start && view.getInt16(glyf.offset + start) > 0) {
+          view.setInt16(glyf.offset + start, 2000)
+          break
+        }
+      }
+    })
+    expect(new DataView(font.buffer).getInt16(directory(font).get('head')!.offset + 50)).toBe(1)
+
+    const report = sanitize(font)
+    expect(report.font).toBeNull()
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'INVALID_GLYPH', tag: 'glyf' }))
+  })
+
+  it('rejects composite glyphs that refer back to themselves', () => {
+    const { glyf, loca } = Object.fromEntries(directory(ttf))
+    const view = new DataView(ttf.buffer, ttf.byteOffset)
+    // Offsets of the first component index of the first two composite glyphs
+    const composites: Array<{ glyphId: number; component: number }> = []
+    for (let i = 0; composites.length < 2; i++) {
+      const start = view.getUint32(loca.offset + i * 4)
+      if (view.getUint32(loca.offset + (i + 1) * 4) > start && view.getInt16(glyf.offset + start) < 0) {
+        composites.push({ glyphId: i, component: glyf.offset + start + 12 })
+      }
+    }
+    const [a, b] = composites
+
+    const self = sanitize(mutate(ttf, (_, v) => v.setUint16(a.component, a.glyphId)))
+    expect(self.font).toBeNull()
+    expect(self.findings).toContainEqual(
+      expect.objectContaining({ code: 'INVALID_GLYPH', message: `Glyph ${a.glyphId}: components refer back to the glyph` })
+    )
+
+    const cycle = sanitize(mutate(ttf, (_, v) => {
+      v.setUint16(a.component, b.glyphId)
+      v.setUint16(b.component, a.glyphId)
+    }))
+    expect(cycle.font).toBeNull()
+    expect(errorCodes(cycle)).toEqual(['INVALID_GLYPH'])
+  })
+
+  it('rejects composite glyphs nested too deeply', () => {
+    const { glyf, loca } = Object.fromEntries(directory(ttf))
+    const view = new DataView(ttf.buffer, ttf.byteOffset)
+    const composites: Array<{ glyphId: number; component: number }> = []
+    for (let i = 0; composites.length < 18; i++) {
+      const start = view.getUint32(loca.offset + i * 4)
+      if (view.getUint32(loca.offset + (i + 1) * 4) > start && view.getInt16(glyf.offset + start) < 0) {
+        composites.push({ glyphId: i, component: glyf.offset + start + 12 })
+      }
+    }
+
+    // A chain of 18 composites, each using the next as its first component
+    const report = sanitize(mutate(ttf, (_, v) => {
+      for (let i = 0; i < 17; i++) {
+        v.setUint16(composites[i].component, composites[i + 1].glyphId)
+      }
+    }))
+    expect(report.font).toBeNull()
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        code: 'INVALID_GLYPH',
+        message: `Glyph ${composites[0].glyphId}: components nest deeper than 16 levels`,
+      }),
+    ])
+  })
+
+  it('rejects non-SFNT input', () => {
+    expect(errorCodes(sanitize(new Uint8Array(64)))).toEqual(['INVALID_SFNT'])
+  })
+})
@@ -0,0 +1,288 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { Readable } from 'node:stream'
+import { describe, it, expect } from 'vitest'
+import { woff2Decode } from '../src/woff2/decode/decode'
+import { readHeader } from '../src/woff2/decode/reconstruct'
+import { Woff2DecoderStream, type Woff2StreamChunk } from '../src/woff2/decode/stream'
+import { woffDecode, woffDecodeDetailed } from '../src/woff/decode'
+import { woffEncode } from '../src/woff/encode'
+import { WoffDecoderStream, createWoffDecodeTransform } from '../src/woff/decode-stream'
+import { WoffEncoderStream, createWoffEncodeTransform } from '../src/woff/encode-stream'
+import { ChecksumError, DecompressionError, WoffError } from '../src/shared/errors'
+import type { Transform } from 'node:stream'
+import type { Woff2DecodeOptions } from '../src/woff2/decode/decode'
+
+const fixturesPath = join(__dirname, 'fixtures')
+const woff2 = readFileSync(join(fixturesPath, 'enc-ttf.woff2'))
+const otfWoff2 = readFileSync(join(fixturesPath, 'enc-otf.woff2'))
+const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+const otf = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+function split(data: Uint8Array, size: number): Uint8Array[] {
+  const chunks: Uint8Array[] = []
+  for (let offset = 0; offset < data.byteLength; offset += size) {
+    chunks.push(data.slice(offset, offset + size))
+  }
+  return chunks
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  return new Uint8Array(Buffer.concat(chunks))
+}
+
+// Pipe chunks through a Web Streams pair, recording how many input chunks had
+// been written when each output chunk arrived
+async function pipeWeb(
+  stream: { readable: ReadableStream<Uint8Array>; writable: WritableStream<Uint8Array> },
+  chunks: Uint8Array[]
+): Promise<{ output: Uint8Array; writtenAt: number[] }> {
+  let written = 0
+  const writtenAt: number[] = []
+  const outputs: Uint8Array[] = []
+  const reading = (async () => {
+    const reader = stream.readable.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      outputs.push(value)
+      writtenAt.push(written)
+    }
+  })()
+
+  const writer = stream.writable.getWriter()
+  try {
+    for (const chunk of chunks) {
+      await writer.write(chunk)
+      written++
+    }
+    await writer.close()
+  } catch {
+    // Surfaced by the reader
+  }
+  await reading
+  return { output: concat(outputs), writtenAt }
+}
+
+async function pipeNode(transform: Transform, chunks: Uint8Array[]): Promise<Uint8Array> {
+  const outputs: Uint8Array[] = []
+  for await (const chunk of Readable.from(chunks.map((c) => Buffer.from(c))).pipe(transform)) {
+    outputs.push(chunk)
+  }
+  return concat(outputs)
+}
+
+// Feed data in chunks of the given sizes (the last size repeats), recording
+// how many chunks had been pulled when each output chunk arrived
+async function decodeStream(
+  data: Uint8Array,
+  sizes: number[],
+  options?: Woff2DecodeOptions
+): Promise<{ chunks: Woff2StreamChunk[]; pulledAt: number[]; totalChunks: number }> {
+  const inputs: Uint8Array[] = []
+  for (let offset = 0, i = 0; offset < data.byteLength; i++) {
+    const size = sizes[Math.min(i, sizes.length - 1)]
+    inputs.push(data.slice(offset, offset + size))
+    offset += size
+  }
+
+  let pulled = 0
+  const source = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pulled === inputs.length) {
+        controller.close()
+      } else {
+        controller.enqueue(inputs[pulled++])
+      }
+    },
+  }, { highWaterMark: 0 })
+
+  const chunks: Woff2StreamChunk[] = []
+  const pulledAt: number[] = []
+  const reader = source.pipeThrough(new Woff2DecoderStream(options)).getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    pulledAt.push(pulled)
+  }
+  return { chunks, pulledAt, totalChunks: inputs.length }
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise
+  } catch (err) {
+    expect(err).toBeInstanceOf(WoffError)
+    return (err as WoffError).code
+  }
+  return 'none'
+}
+
+// Table data of a decoded SFNT by tag
+function sfntTables(font: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(font.buffer, font.byteOffset)
+  const tables = new Map<string, Uint8Array>()
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const entry = 12 + i * 16
+    const offset = view.getUint32(entry + 8)
+    tables.set(String.fromCharCode(...font.subarray(entry, entry + 4)), font.subarray(offset, offset + view.getUint32(entry + 12)))
+  }
+  return tables
+}
+
+describe('Woff2DecoderStream', () => {
+  it('decodes the same font as woff2Decode', async () => {
+    for (const data of [woff2, otfWoff2]) {
+      const { chunks } = await decodeStream(data, [4096])
+      const last = chunks[chunks.length - 1]
+      expect(last.type).toBe('font')
+      if (last.type !== 'font') continue
+      expect(Buffer.from(last.font).equals(await woff2Decode(data))).toBe(true)
+      expect(last.checksumMismatches).toBeNull()
+    }
+  })
+
+  it('emits the header first and every table once', async () => {
+    // Byte-sized chunks through the header and table directory
+    const { chunks } = await decodeStream(woff2, [...Array(200).fill(1), 8192])
+    expect(chunks[0].type).toBe('header')
+    if (chunks[0].type !== 'header') return
+    const info = chunks[0].info
+
+    const font = (chunks[chunks.length - 1] as { font: Uint8Array }).font
+    const expected = sfntTables(font)
+    const tables = chunks.filter((c) => c.type === 'table')
+    expect(tables.map((t) => t.tag).sort()).toEqual(info.tables.map((t) => t.tag).sort())
+    for (const table of tables) {
+      if (table.tag === 'head') {
+        // As stored, before checkSumAdjustment is recomputed
+        expect(Buffer.from(table.data.subarray(12)).equals(expected.get('head')!.subarray(12))).toBe(true)
+      } else {
+        expect(Buffer.from(table.data).equals(expected.get(table.tag)!)).toBe(true)
+      }
+    }
+  })
+
+  it('emits untransformed tables before the input ends', async () => {
+    const { chunks, pulledAt, totalChunks } = await decodeStream(woff2, [1024])
+    const first = chunks.findIndex((c) => c.type === 'table')
+    expect(pulledAt[first]).toBeLessThan(totalChunks)
+
+    // Transformed tables follow reconstruction at the end
+    const late = chunks.filter((c, i) => c.type === 'table' && pulledAt[i] === totalChunks).map((c) => (c as { tag: string }).tag)
+    expect(late).toEqual(expect.arrayContaining(['glyf', 'loca']))
+  })
+
+  it('reports checksum mismatches when asked', async () => {
+    const { chunks } = await decodeStream(woff2, [65536], { verifyChecksums: 'report' })
+    expect(chunks[chunks.length - 1]).toMatchObject({ type: 'font', checksumMismatches: [] })
+  })
+
+  it('rejects bad input as it arrives', async () => {
+    expect(await errorCode(decodeStream(readFileSync(join(fixturesPath, 'dec-woff2.ttf')), [4096]))).toBe('BAD_SIGNATURE')
+    expect(await errorCode(decodeStream(woff2.subarray(0, 30), [4096]))).toBe('TRUNCATED')
+    expect(await errorCode(decodeStream(woff2.subarray(0, woff2.byteLength - 100), [4096]))).toBe('TRUNCATED')
+    expect(await errorCode(decodeStream(Buffer.concat([woff2, new Uint8Array(4)]), [4096]))).toBe('INVALID_HEADER')
+    expect(await errorCode(decodeStream(woff2, [4096], { maxTables: 4 }))).toBe('LIMIT_EXCEEDED')
+  })
+
+  it('reports corrupt Brotli data', async () => {
+    const { compressedOffset } = readHeader(woff2)
+    const corrupt = new Uint8Array(woff2)
+    corrupt.fill(0xff, compressedOffset, compressedOffset + 64)
+    await expect(decodeStream(corrupt, [4096])).rejects.toMatchObject({ offset: compressedOffset })
+    await expect(decodeStream(corrupt, [4096])).rejects.toBeInstanceOf(DecompressionError)
+  })
+})
+
+describe('WoffDecoderStream', () => {
+  it('decodes the same font as woffDecode', async () => {
+    for (const font of [ttf, otf]) {
+      const woff = await woffEncode(font)
+      const { output } = await pipeWeb(new WoffDecoderStream(), [...split(woff.subarray(0, 300), 1), ...split(woff.subarray(300), 4096)])
+      expect(Buffer.from(output).equals(await woffDecode(woff))).toBe(true)
+      expect(Buffer.from(output).equals(font)).toBe(true)
+    }
+  })
+
+  it('emits the font as tables arrive', async () => {
+    const woff = await woffEncode(ttf)
+    const chunks = split(woff, 1024)
+    const { writtenAt } = await pipeWeb(new WoffDecoderStream(), chunks)
+    expect(writtenAt[0]).toBeLessThan(2) // SFNT header and directory
+    expect(writtenAt.filter((n) => n < chunks.length / 2).length).toBeGreaterThan(1)
+  })
+
+  it('verifies checksums', async () => {
+    const woff = await woffEncode(ttf)
+    const stream = new WoffDecoderStream({ verifyChecksums: 'report' })
+    await pipeWeb(stream, split(woff, 4096))
+    expect(stream.checksumMismatches).toEqual([])
+
+    // Corrupt the first table's stored checksum
+    new DataView(woff.buffer, woff.byteOffset).setUint32(44 + 16, 0)
+    const reported = new WoffDecoderStream({ verifyChecksums: 'report' })
+    await pipeWeb(reported, split(woff, 4096))
+    const { checksumMismatches } = await woffDecodeDetailed(woff, { verifyChecksums: 'report' })
+    expect(reported.checksumMismatches).toEqual(checksumMismatches)
+    expect(reported.checksumMismatches).toContainEqual(expect.objectContaining({ field: 'checksum', expected: 0 }))
+
+    const reader = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(woff)
+        controller.close()
+      },
+    }).pipeThrough(new WoffDecoderStream({ verifyChecksums: 'throw' })).getReader()
+    await expect((async () => { while (!(await reader.read()).done); })()).rejects.toBeInstanceOf(ChecksumError)
+  })
+
+  it('rejects truncated and unstreamable input', async () => {
+    const woff = await woffEncode(ttf)
+    const truncated = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(woff.subarray(0, woff.byteLength - 100))
+        controller.close()
+      },
+    }).pipeThrough(new WoffDecoderStream()).getReader()
+    await expect((async () => { while (!(await truncated.read()).done); })()).rejects.toMatchObject({ code: 'OUT_OF_BOUNDS' })
+
+    // Point the second table at the first table's data
+    const view = new DataView(woff.buffer, woff.byteOffset)
+    view.setUint32(44 + 20 + 4, view.getUint32(44 + 4))
+    await expect(pipeNode(createWoffDecodeTransform(), [woff])).rejects.toMatchObject({ code: 'INVALID_HEADER' })
+  })
+
+  it('works as a Node stream.Transform', async () => {
+    const woff = await woffEncode(otf)
+    const transform = createWoffDecodeTransform({ verifyChecksums: 'report' })
+    expect(Buffer.from(await pipeNode(transform, split(woff, 1000))).equals(otf)).toBe(true)
+    expect(transform.checksumMismatches).toEqual([])
+  })
+})
+
+describe('WoffEncoderStream', () => {
+  it('encodes the same file as woffEncode', async () => {
+    const options = {
+      level: 6,
+      metadata: '<metadata version="1.0"/>',
+      privateData: new Uint8Array([1, 2, 3]),
+      tableStorage: { GPOS: 'raw' },
+    } as const
+    for (const font of [ttf, otf]) {
+      const { output } = await pipeWeb(new WoffEncoderStream(options), split(font, 4096))
+      expect(Buffer.from(output).equals(await woffEncode(font, options))).toBe(true)
+    }
+  })
+
+  it('works as a Node stream.Transform', async () => {
+    const woff = await pipeNode(createWoffEncodeTransform(), [...split(ttf.subarray(0, 100), 1), ...split(ttf.subarray(100), 8192)])
+    expect(Buffer.from(woff).equals(await woffEncode(ttf))).toBe(true)
+    expect(Buffer.from(await pipeNode(createWoffDecodeTransform(), [woff])).equals(ttf)).toBe(true)
+  })
+
+  it('rejects truncated input', async () => {
+    await expect(pipeNode(createWoffEncodeTransform(), [ttf.subarray(0, 40)])).rejects.toMatchObject({ code: 'INVALID_SFNT' })
+    await expect(pipeNode(createWoffEncodeTransform(), [ttf.subarray(0, 1000)])).rejects.toMatchObject({ code: 'INVALID_SFNT' })
+  })
+})
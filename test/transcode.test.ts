@@ -0,0 +1,67 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import { transcode } from '../src/universal/transcode'
+import { woffEncode } from '../src/woff/encode'
+import { woffDecode, woffDecodeDetailed } from '../src/woff/decode'
+import { inspectWoff } from '../src/woff/inspect'
+import { woff2DecodeDetailed } from '../src/woff2/decode/decode'
+import { inspectWoff2 } from '../src/woff2/decode/inspect'
+
+const fixturesPath = join(__dirname, 'fixtures')
+
+const metadata = '<?xml version="1.0" encoding="UTF-8"?><metadata version="1.0"><uniqueid id="com.example.test"/></metadata>'
+const privateData = new Uint8Array([0xde, 0xad, 0xbe, 0xef, 0x01])
+
+function tableTags(data: Uint8Array): string[] {
+  const view = new DataView(data.buffer, data.byteOffset)
+  const numTables = view.getUint16(4)
+  const tags: string[] = []
+  for (let i = 0; i < numTables; i++) {
+    tags.push(String.fromCharCode(...data.subarray(12 + i * 16, 16 + i * 16)))
+  }
+  return tags
+}
+
+describe('transcode', () => {
+  const otf = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+  it('converts WOFF to WOFF2 keeping metadata, private data and version', async () => {
+    const woff = await woffEncode(otf, { metadata, privateData, majorVersion: 3, minorVersion: 7 })
+
+    const woff2 = await transcode(woff, { to: 'woff2', quality: 2 })
+    const info = inspectWoff2(woff2)
+    expect(info.majorVersion).toBe(3)
+    expect(info.minorVersion).toBe(7)
+
+    const result = await woff2DecodeDetailed(woff2)
+    expect(result.metadata).toBe(metadata)
+    expect(result.privateData).toEqual(privateData)
+    expect(Buffer.from(result.font).equals(Buffer.from(await woffDecode(woff)))).toBe(true)
+  })
+
+  it('converts WOFF2 to WOFF keeping metadata, private data and version', async () => {
+    const woff2 = await transcode(await woffEncode(otf, { metadata, privateData, majorVersion: 2 }), {
+      to: 'woff2',
+      quality: 2,
+    })
+
+    const woff = await transcode(woff2, { to: 'woff' })
+    const info = inspectWoff(woff)
+    expect(info.majorVersion).toBe(2)
+    expect(info.minorVersion).toBe(0)
+
+    // WOFF table directory must be sorted by tag
+    const tags = info.tables.map((t) => t.tag)
+    expect(tags).toEqual([...tags].sort())
+
+    const result = await woffDecodeDetailed(woff)
+    expect(result.metadata).toBe(metadata)
+    expect(result.privateData).toEqual(privateData)
+    expect(tableTags(result.font)).toEqual(tableTags(otf).filter((tag) => tag !== 'DSIG'))
+  })
+
+  it('rejects unknown input', async () => {
+    await expect(transcode(new Uint8Array(16), { to: 'woff2' })).rejects.toThrow('Unrecognized font format')
+  })
+})
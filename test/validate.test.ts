@@ -0,0 +1,273 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { brotliCompressSync, deflateSync } from 'node:zlib'
+import { describe, it, expect, vi } from 'vitest'
+import { validateWoff2 } from '../src/woff2/decode/validate'
+import { validateWoff } from '../src/woff/validate'
+import { woffEncode } from '../src/woff/encode'
+import { woff2Encode } from '../src/woff2/encode/encode'
+import type { ValidationReport } from '../src/shared/validation'
+
+const fixturesPath = join(__dirname, 'fixtures')
+
+const ttf = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+const encoded = woff2Encode(ttf, {
+  quality: 2,
+  metadata: '<?xml version="1.0" encoding="UTF-8"?><metadata version="1.0"/>',
+})
+
+function errorCodes(report: ValidationReport): string[] {
+  return report.findings.filter((f) => f.severity === 'error').map((f) => f.code)
+}
+
+// File offsets of each WOFF2 table directory entry's flags byte
+function directoryEntries(data: Uint8Array): Map<number, number> {
+  const entries = new Map<number, number>()
+  const numTables = (data[12] << 8) | data[13]
+  let pos = 48
+  const skipBase128 = () => {
+    while (data[pos++] & 0x80);
+  }
+  for (let i = 0; i < numTables; i++) {
+    const flags = data[pos]
+    entries.set(flags & 0x3f, pos)
+    pos += (flags & 0x3f) === 0x3f ? 5 : 1
+    skipBase128()
+    const index = flags & 0x3f
+    const version = flags >> 6
+    const isGlyfLoca = index === 10 || index === 11
+    if (isGlyfLoca ? version !== 3 : version !== 0) skipBase128()
+  }
+  return entries
+}
+
+function mutate(fn: (data: Uint8Array, view: DataView) => void): Uint8Array {
+  const copy = new Uint8Array(encoded)
+  fn(copy, new DataView(copy.buffer))
+  return copy
+}
+
+describe('validateWoff2', () => {
+  it('accepts encoder output', async () => {
+    const report = await validateWoff2(encoded)
+    expect(report.findings).toEqual([])
+    expect(report.valid).toBe(true)
+  })
+
+  it('accepts reference encoder output', async () => {
+    const report = await validateWoff2(readFileSync(join(fixturesPath, 'enc-ttf.woff2')))
+    expect(errorCodes(report)).toEqual([])
+    expect(report.valid).toBe(true)
+  })
+
+  it('reports bad signature and truncation', async () => {
+    expect(errorCodes(await validateWoff2(ttf))).toEqual(['BAD_SIGNATURE'])
+    expect(errorCodes(await validateWoff2(encoded.subarray(0, 30)))).toEqual(['TRUNCATED'])
+  })
+
+  it('reports header field violations with offsets', async () => {
+    const report = await validateWoff2(mutate((_, view) => {
+      view.setUint32(8, encoded.byteLength + 1)
+      view.setUint16(14, 1)
+    }))
+
+    expect(report.valid).toBe(false)
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'LENGTH_MISMATCH', offset: 8 }))
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'RESERVED_NONZERO', offset: 14 }))
+  })
+
+  it('reports extraneous trailing data', async () => {
+    const padded = new Uint8Array(encoded.byteLength + 8)
+    padded.set(encoded)
+    new DataView(padded.buffer).setUint32(8, padded.byteLength)
+
+    const report = await validateWoff2(padded)
+    expect(errorCodes(report)).toEqual(['EXTRANEOUS_DATA'])
+  })
+
+  it('reports duplicate tags and reserved transform versions', async () => {
+    const entries = directoryEntries(encoded)
+    const gdef = entries.get(26)!
+    const hmtx = entries.get(3)!
+    expect(encoded[hmtx] >> 6).toBe(1)
+
+    const report = await validateWoff2(mutate((data) => {
+      data[gdef] = (data[gdef] & 0xc0) | 0 // GDEF -> cmap
+      data[hmtx] = (data[hmtx] & 0x3f) | (2 << 6)
+    }))
+
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'DUPLICATE_TAG', tag: 'cmap' }))
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({ code: 'INVALID_TRANSFORM_VERSION', tag: 'hmtx', offset: hmtx })
+    )
+  })
+
+  it('reports metadata size mismatch', async () => {
+    const report = await validateWoff2(mutate((_, view) => {
+      view.setUint32(36, view.getUint32(36) + 1)
+    }))
+    expect(errorCodes(report)).toEqual(['METADATA_SIZE_MISMATCH'])
+  })
+
+  it('reports misaligned blocks', async () => {
+    const withPrivate = woff2Encode(ttf, { quality: 2, privateData: new Uint8Array(4) })
+    const view = new DataView(withPrivate.buffer)
+    view.setUint32(40, view.getUint32(40) + 1)
+    view.setUint32(44, 3)
+
+    const report = await validateWoff2(withPrivate)
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'BLOCK_MISALIGNED', offset: 40 }))
+  })
+
+  it('reports corrupt compressed data', async () => {
+    const entries = directoryEntries(encoded)
+    const report = await validateWoff2(mutate((data) => {
+      // Overwrite the start of the Brotli stream, just past the table directory
+      const start = Math.max(...entries.values()) + 8
+      data.fill(0xff, start, start + 64)
+    }))
+    expect(report.valid).toBe(false)
+  })
+
+  // 32 MB of zeros in a few bytes, in place of the font data
+  function brotliBomb(): Uint8Array {
+    const bomb = brotliCompressSync(new Uint8Array(32 << 20))
+    const plain = woff2Encode(ttf, { quality: 2 })
+    const prefix = plain.subarray(0, plain.byteLength - new DataView(plain.buffer).getUint32(20))
+    const data = new Uint8Array(prefix.byteLength + bomb.byteLength)
+    data.set(prefix)
+    data.set(bomb, prefix.byteLength)
+    const view = new DataView(data.buffer)
+    view.setUint32(8, data.byteLength)
+    view.setUint32(20, bomb.byteLength)
+    return data
+  }
+
+  it('stops inflating a Brotli bomb at the declared size', async () => {
+    const report = await validateWoff2(brotliBomb())
+    expect(errorCodes(report)).toEqual(['DECOMPRESSION_SIZE_MISMATCH'])
+    expect(report.findings[0].message).toContain('inflates past')
+  })
+
+  it('stops inflating a Brotli bomb at the declared size with brotli-lib', async () => {
+    // Node has no Brotli DecompressionStream, so without process.versions.node
+    // the validator falls back to brotli-lib
+    const versions = Object.getOwnPropertyDescriptor(process, 'versions')!
+    Object.defineProperty(process, 'versions', { ...versions, value: { ...process.versions, node: undefined } })
+    let validate: typeof validateWoff2
+    try {
+      vi.resetModules()
+      validate = (await import('../src/woff2/decode/validate')).validateWoff2
+    } finally {
+      Object.defineProperty(process, 'versions', versions)
+    }
+
+    // brotli-lib stops at the declared size without telling whether the
+    // stream runs on, so the bomb is cut off rather than reported
+    expect(errorCodes(await validate(brotliBomb()))).toEqual([])
+    expect(await validate(encoded)).toMatchObject({ valid: true })
+  })
+
+  it('stops inflating metadata at metaOrigLength', async () => {
+    const bomb = brotliCompressSync(new Uint8Array(32 << 20))
+    const metaOffset = new DataView(encoded.buffer).getUint32(28)
+    const data = new Uint8Array(metaOffset + bomb.byteLength)
+    data.set(encoded.subarray(0, metaOffset))
+    data.set(bomb, metaOffset)
+    const view = new DataView(data.buffer)
+    view.setUint32(8, data.byteLength)
+    view.setUint32(32, bomb.byteLength)
+
+    const report = await validateWoff2(data)
+    expect(errorCodes(report)).toEqual(['METADATA_SIZE_MISMATCH'])
+    expect(report.findings[0].message).toContain('inflates past')
+  })
+})
+
+describe('validateWoff', () => {
+  async function encodeWoff(mutateFn?: (data: Uint8Array, view: DataView) => void): Promise<Uint8Array> {
+    const woff = await woffEncode(ttf, { metadata: '<metadata version="1.0"/>', privateData: new Uint8Array(4) })
+    mutateFn?.(woff, new DataView(woff.buffer, woff.byteOffset))
+    return woff
+  }
+
+  it('accepts encoder output', async () => {
+    const report = await validateWoff(await encodeWoff())
+    expect(report.findings).toEqual([])
+    expect(report.valid).toBe(true)
+  })
+
+  it('reports bad signature', async () => {
+    expect(errorCodes(await validateWoff(encoded))).toEqual(['BAD_SIGNATURE'])
+  })
+
+  it('reports header field violations', async () => {
+    const report = await validateWoff(await encodeWoff((_, view) => {
+      view.setUint32(8, view.getUint32(8) + 4)
+      view.setUint32(16, view.getUint32(16) + 4)
+    }))
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'LENGTH_MISMATCH', offset: 8 }))
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'TOTAL_SFNT_SIZE_MISMATCH', offset: 16 }))
+  })
+
+  it('reports out of range and overlapping table data', async () => {
+    const report = await validateWoff(await encodeWoff((data, view) => {
+      // Point the second table at the first, and the third past the end of the file
+      view.setUint32(44 + 20 + 4, view.getUint32(44 + 4))
+      view.setUint32(44 + 40 + 4, data.byteLength)
+    }))
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'BLOCK_OVERLAP', offset: 68 }))
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'BLOCK_OUT_OF_BOUNDS', offset: 88 }))
+  })
+
+  it('reports compLength larger than origLength', async () => {
+    const report = await validateWoff(await encodeWoff((_, view) => {
+      view.setUint32(44 + 12, view.getUint32(44 + 8) - 1)
+    }))
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'INVALID_TABLE_LENGTH', offset: 52 }))
+  })
+
+  it('reports an unsorted directory', async () => {
+    const report = await validateWoff(await encodeWoff((data) => {
+      // Swap the first two tags
+      const first = data.slice(44, 48)
+      data.copyWithin(44, 64, 68)
+      data.set(first, 64)
+    }))
+    expect(report.findings).toContainEqual(expect.objectContaining({ code: 'DIRECTORY_NOT_SORTED', offset: 64 }))
+  })
+
+  it('stops inflating a deflate bomb at the declared size', async () => {
+    // 32 MB of zeros in place of the metadata, the last block before private data
+    const bomb = deflateSync(new Uint8Array(32 << 20), { level: 9 })
+    const woff = await woffEncode(ttf, { metadata: '<metadata version="1.0"/>' })
+    const metaOffset = new DataView(woff.buffer, woff.byteOffset).getUint32(24)
+    const data = new Uint8Array(metaOffset + bomb.byteLength)
+    data.set(woff.subarray(0, metaOffset))
+    data.set(bomb, metaOffset)
+    const view = new DataView(data.buffer)
+    view.setUint32(8, data.byteLength)
+    view.setUint32(28, bomb.byteLength)
+
+    const report = await validateWoff(data)
+    expect(errorCodes(report)).toEqual(['METADATA_SIZE_MISMATCH'])
+    expect(report.findings[0].message).toContain('inflates past')
+
+    // A table claiming to be smaller than it inflates to
+    const table = await validateWoff(await encodeWoff((_, view) => {
+      view.setUint32(44 + 12, view.getUint32(44 + 8) + 1)
+    }))
+    expect(table.findings).toContainEqual(expect.objectContaining({
+      code: 'DECOMPRESSION_SIZE_MISMATCH',
+      message: expect.stringContaining('inflates past'),
+    }))
+  })
+
+  it('reports corrupt compressed tables', async () => {
+    const report = await validateWoff(await encodeWoff((data, view) => {
+      const offset = view.getUint32(44 + 4)
+      data.fill(0xff, offset, offset + 8)
+    }))
+    expect(errorCodes(report)).toEqual(['DECOMPRESSION_FAILED'])
+  })
+})
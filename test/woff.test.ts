@@ -1,8 +1,11 @@
 import { readFileSync } from 'node:fs'
 import { join } from 'node:path'
+import { inflateSync } from 'node:zlib'
 import { describe, it, expect } from 'vitest'
-import { woffEncode } from '../src/woff/encode'
-import { woffDecode } from '../src/woff/decode'
+import { woffEncode, woffEncodeDetailed } from '../src/woff/encode'
+import { woffDecode, woffDecodeDetailed } from '../src/woff/decode'
+import { zopfliCompress } from '../src/woff/zopfli'
+import { ChecksumError, WoffError } from '../src/shared/errors'
 
 const fixturesPath = join(__dirname, 'fixtures')
 
@@ -91,3 +94,177 @@ describe('woff encode - compression', () => {
     expect(ratio).toBeLessThan(1)
   })
 })
+
+describe('woff encode - zopfli', () => {
+  it('encodes smaller than level 9 and decodes to the same font', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+    const zlib = await woffEncode(original)
+    const zopfli = await woffEncode(original, { zopfli: { iterations: 5 } })
+
+    console.log(`WOFF OTF zopfli: ${zlib.byteLength} → ${zopfli.byteLength}`)
+    expect(zopfli.byteLength).toBeLessThan(zlib.byteLength)
+    expect(await woffDecode(zopfli)).toEqual(await woffDecode(zlib))
+  })
+
+  it('writes zlib streams for empty, incompressible and repetitive data', () => {
+    const random = new Uint8Array(70000)
+    for (let i = 0, x = 1; i < random.length; i++) {
+      x = (Math.imul(x, 1103515245) + 12345) >>> 0
+      random[i] = x >>> 24
+    }
+    const text = new TextEncoder().encode('abcabcabd'.repeat(2000))
+    for (const data of [new Uint8Array(0), new Uint8Array([7]), new Uint8Array(20000), random, text]) {
+      expect(new Uint8Array(inflateSync(zopfliCompress(data, { iterations: 3 })))).toEqual(data)
+    }
+  })
+
+  it('rejects invalid iteration counts', () => {
+    expect(() => zopfliCompress(new Uint8Array(10), { iterations: 0 })).toThrow(WoffError)
+  })
+})
+
+describe('woff encode - table storage', () => {
+  const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+  it('reports how each table was stored', async () => {
+    const { woff, tables } = await woffEncodeDetailed(original)
+    expect(woff).toEqual(await woffEncode(original))
+    expect(tables.map((t) => t.tag)).toEqual([...parseTableDirectory(original).keys()])
+
+    const view = new DataView(woff.buffer, woff.byteOffset)
+    tables.forEach((table, i) => {
+      expect(table.compLength).toBe(view.getUint32(44 + i * 20 + 8))
+      expect(table.origLength).toBe(view.getUint32(44 + i * 20 + 12))
+      expect(table.raw).toBe(table.compLength === table.origLength)
+      expect(table.ratio).toBeCloseTo(table.compLength / table.origLength)
+    })
+    expect(tables.find((t) => t.tag === 'glyf')!.raw).toBe(false)
+    expect(tables.find((t) => t.tag === 'gasp')!.raw).toBe(true)
+  })
+
+  it('stores tables raw on request', async () => {
+    const { woff, tables } = await woffEncodeDetailed(original, { tableStorage: { glyf: 'raw', GPOS: 'raw' } })
+    const glyf = tables.find((t) => t.tag === 'glyf')!
+    expect(glyf).toMatchObject({ raw: true, ratio: 1, compLength: glyf.origLength })
+    expect(tables.find((t) => t.tag === 'GPOS')!.raw).toBe(true)
+    expect(await woffDecode(woff)).toEqual(await woffDecode(await woffEncode(original)))
+  })
+
+  it('rejects forced compression of tables deflate does not shrink', async () => {
+    await expect(woffEncode(original, { tableStorage: { glyf: 'compressed' } })).resolves.toBeInstanceOf(Uint8Array)
+    await expect(woffEncode(original, { tableStorage: { gasp: 'compressed' } })).rejects.toMatchObject({
+      code: 'INVALID_OPTION',
+      tag: 'gasp',
+    })
+  })
+})
+
+describe('woff encode - extended metadata', () => {
+  const metadata =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<metadata version="1.0">\n' +
+    '  <uniqueid id="com.example.font.regular.2026"/>\n' +
+    '  <vendor name="Exämple Foundry" url="https://example.com"/>\n' +
+    '  <credits><credit name="Jane Doe" role="Designer"/></credits>\n' +
+    '  <license url="https://example.com/license"><text xml:lang="en">Licensed to you</text></license>\n' +
+    '</metadata>\n'
+
+  it('round-trips metadata XML', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+    const encoded = await woffEncode(original, { metadata })
+    const result = await woffDecodeDetailed(encoded)
+
+    expect(result.metadata).toBe(metadata)
+    expect(getNumGlyphs(result.font)).toBe(getNumGlyphs(original))
+  })
+
+  it('writes a compressed metadata block after the table data', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = await woffEncode(original, { metadata })
+    const view = new DataView(encoded.buffer, encoded.byteOffset)
+    const metaOffset = view.getUint32(24)
+    const metaLength = view.getUint32(28)
+    const metaOrigLength = view.getUint32(32)
+
+    expect(metaOffset % 4).toBe(0)
+    expect(metaOffset + metaLength).toBe(encoded.byteLength)
+    expect(view.getUint32(8)).toBe(encoded.byteLength)
+    expect(metaLength).toBeLessThan(metaOrigLength)
+  })
+
+  it('returns null metadata when absent', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = await woffEncode(original)
+    const result = await woffDecodeDetailed(encoded)
+
+    expect(result.metadata).toBeNull()
+  })
+})
+
+describe('woff encode - private data', () => {
+  const privateData = new Uint8Array([0xde, 0xad, 0xbe, 0xef, 0x01, 0x02, 0x03])
+
+  it('round-trips private data after metadata', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+    const encoded = await woffEncode(original, { metadata: '<metadata version="1.0"/>', privateData })
+    const view = new DataView(encoded.buffer, encoded.byteOffset)
+    const metaOffset = view.getUint32(24)
+    const metaLength = view.getUint32(28)
+    const privOffset = view.getUint32(36)
+
+    expect(privOffset % 4).toBe(0)
+    expect(privOffset).toBeGreaterThanOrEqual(metaOffset + metaLength)
+    expect(privOffset + privateData.byteLength).toBe(encoded.byteLength)
+
+    const result = await woffDecodeDetailed(encoded)
+    expect(result.metadata).toBe('<metadata version="1.0"/>')
+    expect(result.privateData).toEqual(privateData)
+  })
+
+  it('round-trips private data without metadata', async () => {
+    const original = readFileSync(join(fixturesPath, 'dec-enc-otf.otf'))
+
+    const encoded = await woffEncode(original, { privateData })
+    const result = await woffDecodeDetailed(encoded)
+
+    expect(result.metadata).toBeNull()
+    expect(result.privateData).toEqual(privateData)
+  })
+})
+
+describe('woff decode - checksum verification', () => {
+  const original = readFileSync(join(fixturesPath, 'dec-enc-ttf.ttf'))
+
+  it('reports no mismatches for a valid font', async () => {
+    const { checksumMismatches } = await woffDecodeDetailed(await woffEncode(original), { verifyChecksums: 'report' })
+    expect(checksumMismatches).toEqual([])
+  })
+
+  it('skips verification by default', async () => {
+    const { checksumMismatches } = await woffDecodeDetailed(await woffEncode(original))
+    expect(checksumMismatches).toBeNull()
+  })
+
+  it('reports table checksum and checkSumAdjustment mismatches', async () => {
+    const font = new Uint8Array(original)
+    const head = parseTableDirectory(font).get('head')!
+    const view = new DataView(font.buffer)
+    view.setUint32(head.offset + 8, view.getUint32(head.offset + 8) + 1)
+
+    const encoded = await woffEncode(font)
+    // Corrupt the first table's origChecksum
+    const encodedView = new DataView(encoded.buffer, encoded.byteOffset)
+    encodedView.setUint32(44 + 16, encodedView.getUint32(44 + 16) ^ 1)
+    const firstTag = String.fromCharCode(...encoded.subarray(44, 48))
+
+    const { checksumMismatches } = await woffDecodeDetailed(encoded, { verifyChecksums: 'report' })
+    expect(checksumMismatches).toContainEqual(expect.objectContaining({ tag: firstTag, field: 'checksum' }))
+    expect(checksumMismatches).toContainEqual(expect.objectContaining({ tag: 'head', field: 'checkSumAdjustment' }))
+
+    await expect(woffDecode(encoded, { verifyChecksums: 'throw' })).rejects.toThrow(ChecksumError)
+  })
+})